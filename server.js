@@ -1,153 +1,2675 @@
 class Server {
   constructor() {
-    this.MAX_PLAYERS_PER_ROOM = 8;
-    this.POWERUP_SPAWN_INTERVAL = 10000; // 10 seconds
-    this.POWERUP_TYPES = ["health", "speed"];
-    this.OBSTACLE_COUNT = 30; // Number of random obstacles
+    this.MAX_PLAYERS_PER_ROOM = 8; // Default; hosts can change it per room (see ROOM_RULE_LIMITS)
+    this.POWERUP_PICKUP_RADIUS = 40; // Knight body half-size plus the orb's radius
+    
+    // Powerup spawning. Map pads each hold one powerup and refill on their own timer;
+    // the room-wide timer drops the rest into powerup zones or free spots. Both run
+    // faster with more players in the room
+    this.POWERUP_SPAWN_INTERVAL = 10000; // Room-wide timer at POWERUP_REFERENCE_PLAYERS
+    this.PAD_RESPAWN_DELAY = 15000; // For pads that don't set their own
+    this.POWERUP_REFERENCE_PLAYERS = 4;
+    this.MIN_POWERUP_RATE = 0.5; // Spawn rate multiplier bounds, from the player count
+    this.MAX_POWERUP_RATE = 2;
+    this.MAX_POWERUPS = 6; // Live powerups per room, pads included
+    this.POWERUP_LIFETIME = 30000; // Powerups off pads disappear if nobody takes them
+    this.POWERUP_SPACING = 80; // Min distance between two powerups
+    
+    // Spawn tables: relative weight per powerup type. Pads and powerup zones may name a
+    // table; everything else draws from "default"
+    this.POWERUP_SPAWN_TABLES = {
+      default: { health: 30, speed: 20, shield: 15, damage: 15, invisibility: 10, rapidFire: 10 },
+      support: { health: 60, shield: 30, speed: 10 },
+      power: { damage: 40, rapidFire: 35, invisibility: 25 }
+    };
+    
+    // Powerup catalog (mirrors src/game/config/PowerupConfig.ts). Timed powerups live in
+    // the player's `effects` until they expire; gameplay reads their effect fields through
+    // getEffectModifier, so new powerups only need an entry here and on the client
+    this.POWERUPS = {
+      health: { duration: 0, stacking: "instant", effects: { heal: 25 } },
+      speed: { duration: 5000, stacking: "refresh", effects: { speedMultiplier: 1.5 } },
+      shield: { duration: 10000, stacking: "refresh", effects: { shield: 50 } },
+      damage: { duration: 8000, maxDuration: 16000, stacking: "extend", effects: { damageMultiplier: 1.5 } },
+      invisibility: { duration: 6000, stacking: "refresh", effects: { hidden: true } },
+      rapidFire: { duration: 6000, stacking: "refresh", effects: { fireIntervalMultiplier: 0.5 } }
+    };
+    this.OBSTACLE_COUNT = 14; // Wall segments placed before mirroring
+    
+    // Movement (mirrors src/game/config/MovementConfig.ts)
+    this.PLAYER_BODY_SIZE = 48;
+    this.MAP_BORDER = 25; // Half of a border wall block
+    this.MAX_INPUT_DURATION = 100; // ms per input
+    this.FACING_STEP = 45; // Facing snaps to 8 directions, in degrees clockwise from the right
+    this.MAX_INPUT_BUDGET = 500; // ms of movement a client may bank while lagging
+    this.MAX_INPUTS_PER_BATCH = 30;
+    
+    // Maps
+    this.MAPS = this.#createMapRegistry();
+    this.DEFAULT_MAP_ID = "random";
+    this.MIN_MAP_SIZE = 800;
+    this.MAX_MAP_SIZE = 4000;
+    this.MAX_MAP_OBSTACLES = 500;
+    this.MAP_EDGE_MARGIN = 100; // Random points stay this far from the map border
+    
+    // Arena generation (the 2000x2000 arena as a grid of 50px tiles)
+    this.MAP_SIZE = 2000;
+    this.MAP_TILE_SIZE = 50;
+    this.OBSTACLE_SIZE = 50; // Size of obstacles stored without width/height
+    this.WALL_MIN_LENGTH = 1; // In tiles
+    this.WALL_MAX_LENGTH = 6;
+    this.WALL_MAX_THICKNESS = 2;
+    this.WALL_PLACEMENT_ATTEMPTS = 200;
+    
+    // Game modes
+    this.GAME_MODES = ["ffa", "tdm", "ctf", "koth"];
+    this.TEAM_MODES = ["tdm", "ctf"];
+    this.TEAMS = ["red", "blue"];
+    
+    // Capture the flag
+    this.TEAM_BASES = {
+      red: { x: 200, y: 1000 },
+      blue: { x: 1800, y: 1000 }
+    };
+    this.BASE_CLEARANCE = 250; // No obstacles this close to a base
+    this.BASE_SPAWN_RADIUS = 200; // Players spawn within this distance of their base
+    this.FLAG_PICKUP_RADIUS = 60;
+    this.FLAG_CAPTURE_RADIUS = 80;
+    this.FLAG_RETURN_DELAY = 20000; // A dropped flag returns home after 20 seconds
+    this.CAPTURE_TARGET = 3; // First team to this many captures wins early
+    
+    // King of the hill
+    this.KOTH_ZONES = [
+      { id: "center", x: 1000, y: 1000, radius: 150 },
+      { id: "northwest", x: 450, y: 450, radius: 110 },
+      { id: "southeast", x: 1550, y: 1550, radius: 110 }
+    ];
+    this.ZONE_CAPTURE_TIME = 5000; // ms a lone player needs to take a zone
+    this.ZONE_PROGRESS_STEP = 0.05; // Replicated capture progress is rounded down to this
+    this.ZONE_POINTS_PER_SECOND = 1;
+    this.KOTH_SCORE_TARGET = 100;
+    
+    // Character classes (mirrors src/game/config/CharacterConfig.ts). Every speed, health,
+    // damage and cooldown the server applies comes from the player's stored class
+    this.CHARACTER_CLASSES = {
+      knight: {
+        speed: 200,
+        maxHealth: 100,
+        melee: { damage: 10, cooldown: 500, hitboxWidth: 80, hitboxHeight: 60, hitboxOffset: 96 },
+        ranged: { damage: 10, fireInterval: 400, energyCost: 20, speed: 500, lifetime: 2000 },
+        ability: { kind: "dash", cooldown: 8000, distance: 220 }
+      },
+      archer: {
+        speed: 220,
+        maxHealth: 80,
+        melee: { damage: 6, cooldown: 600, hitboxWidth: 60, hitboxHeight: 50, hitboxOffset: 86 },
+        ranged: { damage: 12, fireInterval: 300, energyCost: 15, speed: 650, lifetime: 1500 },
+        ability: { kind: "volley", cooldown: 10000, count: 5, spread: 0.4 }
+      },
+      mage: {
+        speed: 190,
+        maxHealth: 90,
+        melee: { damage: 8, cooldown: 700, hitboxWidth: 70, hitboxHeight: 60, hitboxOffset: 96 },
+        ranged: { damage: 14, fireInterval: 500, energyCost: 25, speed: 450, lifetime: 2000 },
+        ability: { kind: "nova", cooldown: 12000, radius: 160, damage: 20 }
+      }
+    };
+    this.DEFAULT_CHARACTER_CLASS = "knight";
+    this.DASH_DURATION = 200; // ms a dash takes, simulated in MAX_INPUT_DURATION steps
+    
+    // Combat
+    this.PLAYER_HITBOX_SIZE = 96; // Knight frame (192px) at 0.5 scale
+    this.MAX_ENERGY = 100;
+    this.ENERGY_REGEN_PER_SECOND = 10;
+    this.ENERGY_REGEN_INTERVAL = 500; // ms between energy and stamina writes, instead of every tick
+    this.energyRegenAt = new Map(); // roomId -> last regeneration time
+    
+    // Stamina, shared by melee attacks, blocking and dodging (mirrors CombatConfig)
+    this.MAX_STAMINA = 100;
+    this.STAMINA_REGEN_PER_SECOND = 25;
+    this.STAMINA_REGEN_DELAY = 1000; // ms after spending stamina before it refills
+    this.MELEE_STAMINA_COST = 10;
+    this.BLOCK_DAMAGE_REDUCTION = 0.75; // Share of frontal damage a block stops
+    this.BLOCK_STAMINA_PER_DAMAGE = 1; // Stamina drained per point of damage blocked
+    this.BLOCK_SPEED_MULTIPLIER = 0.5;
+    this.DODGE_STAMINA_COST = 30;
+    this.DODGE_COOLDOWN = 800; // ms between rolls
+    this.DODGE_DISTANCE = 140;
+    this.DODGE_DURATION = 250; // ms the roll takes
+    this.DODGE_INVULNERABILITY = 400; // ms without taking damage from the start of a roll
+    
+    // Lag compensation
+    this.POSITION_HISTORY_DURATION = 1000; // ms of positions kept per player
+    this.MAX_REWIND = 300; // ms; attacks never look further back than this
+    this.PROJECTILE_HIT_TOLERANCE = 16; // px of slack for the projectile sprite
+    this.PROJECTILE_TRAVEL_TOLERANCE = 50; // px a projectile may be ahead of where it could have flown by the hit time
+    
+    // Recent positions per account. Kept in memory rather than in room state because it
+    // changes with every input and no client needs it
+    this.positionHistory = new Map();
+    
+    // Room each account is playing in, for code that only has the caller or a player to go on
+    this.playerRooms = new Map();
+    
+    // Traffic per room: every state write and broadcast goes through #broadcast and the
+    // #update*State helpers, which count messages and JSON bytes before the fan-out to players.
+    // Read with getRoomTraffic
+    this.roomTraffic = new Map(); // roomId -> { since, messages, bytes, byKind: { kind -> { messages, bytes } } }
+    
+    // Per-account movement time budget ({ budget, lastInputAt }); server-only bookkeeping
+    // that would otherwise be replicated to every client with each input batch
+    this.inputClocks = new Map();
+    
+    // Persistent progression, kept per account in global user state (mirrors ProgressionConfig)
+    this.XP_PER_MATCH = 50;
+    this.XP_PER_WIN = 100;
+    this.XP_PER_KILL = 20;
+    this.XP_PER_DAMAGE = 0.2;
+    this.LEVEL_BASE_XP = 200; // XP from level 1 to 2; every further level needs that much more
+    
+    // Per-account combat stats of the current round ({ kills, deaths, damageDealt }), added
+    // to the profile when the round ends or the player leaves
+    this.matchStats = new Map();
+    
+    // Leaderboards: one global collection per window bucket (a UTC day, a week starting on
+    // Monday, all time), holding an aggregate row per account
+    this.LEADERBOARD_WINDOWS = ["daily", "weekly", "allTime"];
+    this.LEADERBOARD_METRICS = ["kills", "kd", "wins"];
+    this.LEADERBOARD_MAX_PAGE_SIZE = 50;
+    this.LEADERBOARD_MIN_MATCHES_FOR_KD = 3; // Keeps one lucky match off the K/D board
+    this.LEADERBOARD_CACHE_TTL = 30000; // ms a sorted board is reused between page requests
+    this.leaderboardCache = new Map(); // "collection:metric" -> { rows, expiresAt }
+    
+    // Skill rating (Elo), kept in the profile and updated from every finished match
+    this.INITIAL_RATING = 1000;
+    this.RATING_K_FACTOR = 32; // Most a player can gain or lose in one match
+    
+    // Quick play matchmaking. Queued players poll pollQueue; each poll looks for an open room
+    // of their mode whose average rating is within range, a range that widens while they
+    // wait. Rooms are listed here as players join them, since the server cannot enumerate them
+    this.QUEUE_BASE_RANGE = 100; // Rating difference accepted right away
+    this.QUEUE_RANGE_GROWTH = 20; // Rating added to the range per second of waiting
+    this.QUEUE_MAX_RANGE = 600;
+    this.QUEUE_FALLBACK_DELAY = 20000; // ms before a player gives up and opens a room
+    this.QUEUE_TIMEOUT = 10000; // ms without polling before an entry is dropped
+    this.QUEUE_WAIT_SAMPLES = 20; // Recent waits averaged for the estimate
+    this.matchQueue = new Map(); // account -> { mode, rating, queuedAt, polledAt }
+    this.queueWaits = []; // ms the latest matched players waited
+    this.roomListings = new Map(); // roomId -> listing, see #getRoomListing
+    
+    // Room browser. Creators pick a name and a visibility: public rooms are listed, password
+    // rooms are listed but need the password to join, private rooms are only joined by ID
+    this.ROOM_VISIBILITIES = ["public", "private", "password"];
+    this.MAX_ROOM_NAME_LENGTH = 30;
+    this.MAX_PASSWORD_LENGTH = 32;
+    this.ROOM_LISTING_INTERVAL = 1000; // ms between listing refreshes from the room tick
+    this.ROOM_LISTING_TIMEOUT = 5000; // ms without a refresh before a room counts as closed
+    this.roomPasswords = new Map(); // roomId -> password; kept off room state, which every player sees
+    
+    // Room rules. The creator hosts the room and can change its rules between rounds, kick
+    // players, lock the room and hand the host role to someone else. Bounds per numeric rule
+    // (mirrors src/game/config/RoomRules.ts)
+    this.ROOM_RULE_LIMITS = {
+      maxPlayers: { min: 2, max: 16 },
+      roundDuration: { min: 60000, max: 900000 }, // ms
+      scoreTarget: { min: 1, max: 500 },
+      damageMultiplier: { min: 0.25, max: 4 }
+    };
+    
+    // Anti-cheat. Every remote function runs behind a validator (see #installValidators);
+    // all other methods are private (#) so clients cannot call them directly
+    this.VIOLATION_LIMIT = 8; // Violations within the window before a player is kicked
+    this.VIOLATION_WINDOW = 60000; // ms
+    this.KICK_COOLDOWN = 120000; // ms a kicked account cannot join a room
+    this.MAX_NAME_LENGTH = 20;
+    this.MAX_ID_LENGTH = 64; // Client-generated projectile and attack ids
+    this.SPEED_VIOLATION_MARGIN = 500; // ms of movement requested beyond the budget before it counts
+    this.RATE_VIOLATION_RATIO = 0.5; // Attacks faster than this share of the cooldown count
+    this.violations = new Map(); // account -> { total, recent: [time] }
+    this.kickedUntil = new Map(); // account -> time the kick expires
+    // Remote functions players call outside a room; the rest are refused once the host kicks them
+    this.LOBBY_FUNCTIONS = [
+      "joinRoom", "leaveRoom", "listRooms", "joinQueue", "pollQueue", "leaveQueue",
+      "getMapList", "getServerTime", "getLeaderboard"
+    ];
+    this.#installValidators();
+    
+    // Death and respawn
+    this.RESPAWN_DELAY = 5000; // ms a dead player waits before respawning
+    this.SPAWN_ATTEMPTS = 30; // Candidate spawn points tried per respawn
+    this.SPAWN_OBSTACLE_CLEARANCE = 60; // Min distance from an obstacle's edge
+    this.SPAWN_ENEMY_DISTANCE = 400; // Preferred min distance from living players
+    
+    // Match lifecycle: waiting -> countdown -> playing -> results
+    this.MIN_PLAYERS_TO_START = 2;
+    this.COUNTDOWN_DURATION = 10000; // 10 seconds
+    this.ROUND_DURATION = 180000; // 3 minutes
+    this.KILL_TARGET = 15; // First player to reach this score wins early
+    this.TEAM_KILL_TARGET = 30; // First team to reach this combined score wins early
+    this.RESULTS_DURATION = 10000; // 10 seconds
   }
 
-  async joinRoom(roomId) {
+  async joinRoom(roomId, options = {}) {
     try {
-      // If roomId is provided, check if it exists and has space
+      if ((this.kickedUntil.get($sender.account) || 0) > Date.now()) {
+        throw new Error("Kicked for cheating; try again later");
+      }
+      
+      // If roomId is provided, check if it has space; the room's own rules are checked once joined
       if (roomId) {
         const roomUsers = await $global.getRoomUserAccounts(roomId);
-        if (roomUsers && roomUsers.length >= this.MAX_PLAYERS_PER_ROOM) {
+        if (roomUsers && roomUsers.length >= this.ROOM_RULE_LIMITS.maxPlayers.max) {
           throw new Error("Room is full");
         }
       }
+      
+      // The room creator picks the mode and map; the map is loaded and validated
+      // before joining so an invalid map never creates a room
+      const mode = this.GAME_MODES.includes(options && options.mode) ? options.mode : "ffa";
+      const mapSeed = this.#parseSeed(options && options.seed);
+      const map = roomId ? null : this.#loadMap((options && options.mapId) || this.DEFAULT_MAP_ID, mode, mapSeed);
 
       // Join or create room
       const joinedRoomId = await $global.joinRoom(roomId);
       
-      // Initialize player state
-      await $room.updateMyState({
-        x: Math.floor(Math.random() * 1800) + 100,
-        y: Math.floor(Math.random() * 1800) + 100,
-        health: 100,
-        score: 0
+      // Another room's state can't be read, so an existing room turns us away only after we joined it
+      let roomState = await $room.getRoomState();
+      const denial = roomState.initialized ? await this.#getJoinDenial(joinedRoomId, roomState, options) : null;
+      if (denial) {
+        await $global.leaveRoom();
+        throw new Error(denial);
+      }
+      this.playerRooms.set($sender.account, joinedRoomId);
+      
+      // Initialize room state if this is a new room
+      if (!roomState.initialized) {
+        const roomMap = map || this.#loadMap(this.DEFAULT_MAP_ID, mode, mapSeed);
+        const layout = this.#getMapLayout(roomMap);
+        
+        const visibility = this.ROOM_VISIBILITIES.includes(options && options.visibility) ? options.visibility : "public";
+        await this.#updateRoomState(joinedRoomId, {
+          initialized: true,
+          roomName: (options && typeof options.roomName === "string" && options.roomName.trim()) || "Open game",
+          visibility,
+          host: $sender.account,
+          mode,
+          rules: this.#createRoomRules(mode, roomMap.id),
+          locked: false,
+          bannedAccounts: [], // Accounts the host kicked
+          phase: "waiting",
+          phaseEndsAt: null,
+          phaseTimeLeft: null,
+          matchResults: null,
+          map: layout,
+          bases: mode === "ctf" ? layout.bases : null,
+          ...this.#createObjectives(mode, layout),
+          powerups: [],
+          padRespawnAt: {}, // Pad id -> time its next powerup appears
+          mapSeed: roomMap.generated ? mapSeed : null,
+          obstacles: roomMap.obstacles, // Save obstacle information
+          lastPowerupSpawn: Date.now()
+        });
+        roomState = await $room.getRoomState();
+        if (visibility === "password") this.roomPasswords.set(joinedRoomId, options.password);
+      }
+      
+      // Put the player on the smaller team in team modes
+      const userStates = await this.#getPlayerStates();
+      const team = this.#isTeamMode(roomState.mode) ?
+        this.#pickTeam(userStates, $sender.account) :
+        null;
+      
+      // Unknown classes (e.g. from an older client) get the default one
+      const characterClass = this.#getCharacterClassId(options && options.characterClass);
+      
+      // Initialize player state at a safe spawn point
+      const spawn = this.#pickSpawnPoint(roomState, userStates, $sender.account, team);
+      await this.#updateMyState(joinedRoomId, {
+        x: spawn.x,
+        y: spawn.y,
+        team,
+        characterClass,
+        angle: 0,
+        life: 1, // Bumped on every respawn so stale inputs are ignored
+        inputSeq: 0,
+        dead: false,
+        health: this.CHARACTER_CLASSES[characterClass].maxHealth,
+        energy: this.MAX_ENERGY,
+        stamina: this.MAX_STAMINA,
+        blocking: false,
+        abilityReadyAt: 0,
+        effects: {},
+        activeProjectiles: [],
+        score: 0
+      });
+      this.#recordPosition($sender.account, spawn.x, spawn.y, Date.now(), true);
+      
+      this.matchQueue.delete($sender.account);
+      this.#unlistPlayer($sender.account);
+      this.#getRoomListing(joinedRoomId, roomState).players.set($sender.account, await this.#getRating($sender.account));
+      
+      return joinedRoomId;
+    } catch (error) {
+      console.error("Error joining room:", error);
+      throw error;
+    }
+  }
+  
+  // Players in the room, without those the host kicked who have not left yet
+  async #getPlayerStates() {
+    return (await $room.getAllUserStates()).filter(userState => !userState.kicked);
+  }
+  
+  // Why the caller can't stay in the room they just joined, if anything. A password room
+  // whose password was lost (e.g. to a server restart) takes no one new
+  async #getJoinDenial(roomId, roomState, options) {
+    const banned = roomState.bannedAccounts || [];
+    const others = ((await $global.getRoomUserAccounts(roomId)) || [])
+      .filter(account => account !== $sender.account && !banned.includes(account));
+    if (others.length >= this.#getRoomRules(roomState).maxPlayers) return "Room is full";
+    if (banned.includes($sender.account)) return "Kicked from this room by the host";
+    if (roomState.locked) return "Room is locked";
+    if (roomState.visibility === "password" &&
+      (!this.roomPasswords.has(roomId) || (options && options.password) !== this.roomPasswords.get(roomId))) {
+      return "Wrong room password";
+    }
+    return null;
+  }
+  
+  async #broadcast(roomId, type, message) {
+    this.#recordTraffic(roomId, type, message);
+    await $room.broadcastToRoom(type, message);
+  }
+  
+  async #updateRoomState(roomId, changes) {
+    this.#recordTraffic(roomId, "roomState", changes);
+    await $room.updateRoomState(changes);
+  }
+  
+  async #updateMyState(roomId, changes) {
+    this.#recordTraffic(roomId, "userState", changes);
+    await $room.updateMyState(changes);
+  }
+  
+  async #updateUserState(roomId, account, changes) {
+    this.#recordTraffic(roomId, "userState", changes);
+    await $room.updateUserState(account, changes);
+  }
+  
+  #recordTraffic(roomId, kind, payload) {
+    if (!roomId) return;
+    const bytes = JSON.stringify(payload === undefined ? null : payload).length;
+    if (!this.roomTraffic.has(roomId)) {
+      this.roomTraffic.set(roomId, { since: Date.now(), messages: 0, bytes: 0, byKind: {} });
+    }
+    const traffic = this.roomTraffic.get(roomId);
+    const entry = traffic.byKind[kind] || (traffic.byKind[kind] = { messages: 0, bytes: 0 });
+    traffic.messages++;
+    traffic.bytes += bytes;
+    entry.messages++;
+    entry.bytes += bytes;
+  }
+  
+  // Traffic counters of the caller's room, with averages per second since counting started.
+  // Other rooms stay out of reach, as private rooms must not be discoverable
+  async getRoomTraffic() {
+    const roomId = this.playerRooms.get($sender.account);
+    const traffic = roomId && this.roomTraffic.get(roomId);
+    if (!traffic) return null;
+    
+    const seconds = Math.max(1, (Date.now() - traffic.since) / 1000);
+    return {
+      roomId,
+      ...traffic,
+      messagesPerSecond: Math.round(traffic.messages / seconds * 10) / 10,
+      bytesPerSecond: Math.round(traffic.bytes / seconds)
+    };
+  }
+  
+  // Built-in maps; "random" is generated per room, the rest are authored layouts
+  // in the native format or exported from the Tiled editor
+  #createMapRegistry() {
+    return {
+      random: { id: "random", name: "Random Arena", generated: true },
+      crossroads: {
+        id: "crossroads",
+        name: "Crossroads",
+        width: 2000,
+        height: 2000,
+        background: "space",
+        obstacles: [
+          { x: 1000, y: 500, width: 400, height: 50 },
+          { x: 1000, y: 1500, width: 400, height: 50 },
+          { x: 500, y: 1000, width: 50, height: 400 },
+          { x: 1500, y: 1000, width: 50, height: 400 },
+          { x: 700, y: 700, width: 100, height: 100 },
+          { x: 1300, y: 700, width: 100, height: 100 },
+          { x: 700, y: 1300, width: 100, height: 100 },
+          { x: 1300, y: 1300, width: 100, height: 100 }
+        ],
+        spawnPoints: [
+          { x: 250, y: 450, team: "red" },
+          { x: 450, y: 250, team: "red" },
+          { x: 300, y: 300, team: "red" },
+          { x: 1750, y: 1550, team: "blue" },
+          { x: 1550, y: 1750, team: "blue" },
+          { x: 1700, y: 1700, team: "blue" },
+          { x: 1000, y: 250, team: null },
+          { x: 1000, y: 1750, team: null },
+          { x: 250, y: 1750, team: null },
+          { x: 1750, y: 250, team: null }
+        ],
+        powerupZones: [
+          { x: 1000, y: 750, radius: 60 },
+          { x: 1000, y: 1250, radius: 60 },
+          { x: 250, y: 1000, radius: 80, table: "support" },
+          { x: 1750, y: 1000, radius: 80, table: "support" }
+        ],
+        powerupPads: [
+          { id: "west", x: 800, y: 1000, table: "power", respawnDelay: 20000 },
+          { id: "east", x: 1200, y: 1000, table: "power", respawnDelay: 20000 }
+        ],
+        bases: {
+          red: { x: 250, y: 250 },
+          blue: { x: 1750, y: 1750 }
+        },
+        zones: [
+          { id: "center", x: 1000, y: 1000, radius: 150 }
+        ]
+      },
+      "twin-keeps": {
+        id: "twin-keeps",
+        name: "Twin Keeps",
+        format: "tiled",
+        tiled: {
+          type: "map",
+          orientation: "orthogonal",
+          width: 40,
+          height: 40,
+          tilewidth: 50,
+          tileheight: 50,
+          properties: [
+            { name: "name", type: "string", value: "Twin Keeps" },
+            { name: "background", type: "string", value: "space" }
+          ],
+          layers: [
+            {
+              type: "objectgroup",
+              name: "obstacle",
+              objects: [
+                { id: 1, x: 150, y: 750, width: 400, height: 50 },
+                { id: 2, x: 150, y: 1200, width: 400, height: 50 },
+                { id: 3, x: 500, y: 800, width: 50, height: 150 },
+                { id: 4, x: 500, y: 1050, width: 50, height: 150 },
+                { id: 5, x: 1450, y: 750, width: 400, height: 50 },
+                { id: 6, x: 1450, y: 1200, width: 400, height: 50 },
+                { id: 7, x: 1450, y: 800, width: 50, height: 150 },
+                { id: 8, x: 1450, y: 1050, width: 50, height: 150 },
+                { id: 9, x: 950, y: 400, width: 100, height: 100 },
+                { id: 10, x: 950, y: 1500, width: 100, height: 100 }
+              ]
+            },
+            {
+              type: "objectgroup",
+              name: "spawn",
+              objects: [
+                { id: 11, x: 300, y: 900, point: true, properties: [{ name: "team", type: "string", value: "red" }] },
+                { id: 12, x: 300, y: 1100, point: true, properties: [{ name: "team", type: "string", value: "red" }] },
+                { id: 13, x: 400, y: 1000, point: true, properties: [{ name: "team", type: "string", value: "red" }] },
+                { id: 14, x: 1700, y: 900, point: true, properties: [{ name: "team", type: "string", value: "blue" }] },
+                { id: 15, x: 1700, y: 1100, point: true, properties: [{ name: "team", type: "string", value: "blue" }] },
+                { id: 16, x: 1600, y: 1000, point: true, properties: [{ name: "team", type: "string", value: "blue" }] },
+                { id: 17, x: 1000, y: 200, point: true },
+                { id: 18, x: 1000, y: 1800, point: true }
+              ]
+            },
+            {
+              type: "objectgroup",
+              name: "objectives",
+              objects: [
+                { id: 19, type: "base", x: 250, y: 1000, point: true, properties: [{ name: "team", type: "string", value: "red" }] },
+                { id: 20, type: "base", x: 1750, y: 1000, point: true, properties: [{ name: "team", type: "string", value: "blue" }] },
+                { id: 21, type: "zone", name: "center", x: 880, y: 880, width: 240, height: 240, ellipse: true },
+                { id: 22, type: "powerup", x: 900, y: 550, width: 200, height: 200, ellipse: true },
+                { id: 23, type: "powerup", x: 900, y: 1250, width: 200, height: 200, ellipse: true },
+                {
+                  id: 24,
+                  type: "pad",
+                  name: "center",
+                  x: 1000,
+                  y: 1000,
+                  point: true,
+                  properties: [
+                    { name: "table", type: "string", value: "power" },
+                    { name: "respawn", type: "int", value: 25000 }
+                  ]
+                }
+              ]
+            }
+          ]
+        }
+      }
+    };
+  }
+  
+  // Load a map by id in the native format, validated for the given mode
+  #loadMap(mapId, mode, seed) {
+    const entry = this.MAPS[mapId];
+    if (!entry) {
+      throw new Error(`Unknown map "${mapId}"`);
+    }
+    
+    let map;
+    if (entry.generated) {
+      map = this.#generateMap(entry, mode, seed);
+    } else if (entry.format === "tiled") {
+      map = this.#importTiledMap(entry.id, entry.tiled);
+    } else {
+      map = { ...entry };
+    }
+    
+    const errors = this.#validateMap(map, mode);
+    if (errors.length > 0) {
+      throw new Error(`Invalid map "${mapId}": ${errors.join("; ")}`);
+    }
+    
+    return map;
+  }
+  
+  // Map metadata stored in room state (obstacles live under their own key)
+  #getMapLayout(map) {
+    return {
+      id: map.id,
+      name: map.name,
+      width: map.width,
+      height: map.height,
+      background: map.background,
+      spawnPoints: map.spawnPoints,
+      powerupZones: map.powerupZones,
+      powerupPads: map.powerupPads || [],
+      bases: map.bases,
+      zones: map.zones
+    };
+  }
+  
+  // Maps the lobby can offer, with the modes each one supports
+  async getMapList() {
+    try {
+      return Object.values(this.MAPS).map(entry => {
+        const modes = this.GAME_MODES.filter(mode => {
+          if (entry.generated) return true;
+          try {
+            this.#loadMap(entry.id, mode, 1);
+            return true;
+          } catch (error) {
+            return false;
+          }
+        });
+        
+        return { id: entry.id, name: entry.name, modes };
+      });
+    } catch (error) {
+      console.error("Error listing maps:", error);
+      throw error;
+    }
+  }
+  
+  // Procedural arena from the seeded generator, with the default objective layout
+  #generateMap(entry, mode, seed) {
+    const bases = this.TEAM_BASES;
+    const zones = this.KOTH_ZONES;
+    
+    // Capture the flag bases and capture zones are kept clear of obstacles
+    const clearAreas = [
+      ...(mode === "ctf" ? Object.values(bases).map(base => ({ ...base, radius: this.BASE_CLEARANCE })) : []),
+      ...(mode === "koth" ? zones.map(zone => ({ ...zone, radius: zone.radius + 50 })) : [])
+    ];
+    
+    // A given seed always reproduces the same map; team modes mirror left/right so
+    // both bases get the same terrain, other modes use rotational symmetry
+    const symmetry = this.#isTeamMode(mode) ? "mirror-x" : "rotational";
+    
+    return {
+      id: entry.id,
+      name: entry.name,
+      generated: true,
+      width: this.MAP_SIZE,
+      height: this.MAP_SIZE,
+      background: "space",
+      obstacles: this.#generateObstacles(clearAreas, seed, symmetry, this.MAP_SIZE),
+      spawnPoints: [],
+      powerupZones: [],
+      powerupPads: [],
+      bases,
+      zones
+    };
+  }
+  
+  // Convert a Tiled JSON export into the native map format
+  // Tile layer "walls": every non-empty tile is a wall (runs are merged per row)
+  // Object layers: objects with class/type (or a layer named) obstacle, spawn, powerup, pad, base or zone
+  // Map properties: name, background; object properties: team, radius, table, respawn (pads, in ms)
+  #importTiledMap(id, tiled) {
+    const tileWidth = tiled.tilewidth;
+    const tileHeight = tiled.tileheight;
+    const properties = this.#readTiledProperties(tiled.properties);
+    
+    const map = {
+      id,
+      name: properties.name || id,
+      width: tiled.width * tileWidth,
+      height: tiled.height * tileHeight,
+      background: properties.background || "space",
+      obstacles: [],
+      spawnPoints: [],
+      powerupZones: [],
+      powerupPads: [],
+      bases: {},
+      zones: []
+    };
+    
+    for (const layer of tiled.layers || []) {
+      if (layer.type === "tilelayer" && layer.name === "walls") {
+        for (let row = 0; row < layer.height; row++) {
+          let runStart = -1;
+          for (let col = 0; col <= layer.width; col++) {
+            const gid = col < layer.width ? layer.data[row * layer.width + col] : 0;
+            if (gid && runStart < 0) runStart = col;
+            if (!gid && runStart >= 0) {
+              map.obstacles.push({
+                x: (runStart + col) / 2 * tileWidth,
+                y: (row + 0.5) * tileHeight,
+                width: (col - runStart) * tileWidth,
+                height: tileHeight
+              });
+              runStart = -1;
+            }
+          }
+        }
+      } else if (layer.type === "objectgroup") {
+        for (const object of layer.objects || []) {
+          const kind = object.class || object.type || layer.name;
+          const objectProperties = this.#readTiledProperties(object.properties);
+          const width = object.width || 0;
+          const height = object.height || 0;
+          
+          // Tiled positions rectangles and ellipses by their top-left corner
+          const x = object.x + width / 2;
+          const y = object.y + height / 2;
+          
+          switch (kind) {
+            case "obstacle":
+              map.obstacles.push({ x, y, width, height });
+              break;
+            case "spawn":
+              map.spawnPoints.push({ x, y, team: objectProperties.team || null });
+              break;
+            case "powerup":
+              map.powerupZones.push({
+                x,
+                y,
+                radius: objectProperties.radius || Math.max(width, height) / 2 || 50,
+                table: objectProperties.table
+              });
+              break;
+            case "pad":
+              map.powerupPads.push({
+                id: object.name || `pad${map.powerupPads.length + 1}`,
+                x,
+                y,
+                table: objectProperties.table,
+                respawnDelay: objectProperties.respawn
+              });
+              break;
+            case "base":
+              map.bases[objectProperties.team] = { x, y };
+              break;
+            case "zone":
+              map.zones.push({
+                id: object.name || `zone${map.zones.length + 1}`,
+                x,
+                y,
+                radius: objectProperties.radius || width / 2
+              });
+              break;
+          }
+        }
+      }
+    }
+    
+    return map;
+  }
+  
+  #readTiledProperties(properties) {
+    const values = {};
+    (properties || []).forEach(property => {
+      values[property.name] = property.value;
+    });
+    return values;
+  }
+  
+  // Check a map before any room uses it; returns a list of problems
+  #validateMap(map, mode) {
+    const errors = [];
+    const isNumber = value => typeof value === "number" && Number.isFinite(value);
+    const inBounds = point => point && isNumber(point.x) && isNumber(point.y) &&
+      point.x >= 0 && point.y >= 0 && point.x <= map.width && point.y <= map.height;
+    
+    if (!isNumber(map.width) || !isNumber(map.height) ||
+        map.width < this.MIN_MAP_SIZE || map.height < this.MIN_MAP_SIZE ||
+        map.width > this.MAX_MAP_SIZE || map.height > this.MAX_MAP_SIZE) {
+      errors.push(`size must be between ${this.MIN_MAP_SIZE} and ${this.MAX_MAP_SIZE}`);
+      return errors;
+    }
+    
+    const obstacles = map.obstacles || [];
+    if (!Array.isArray(obstacles) || obstacles.length > this.MAX_MAP_OBSTACLES) {
+      errors.push(`obstacles must be a list of at most ${this.MAX_MAP_OBSTACLES}`);
+      return errors;
+    }
+    if (obstacles.some(o => !inBounds(o) ||
+        (o.width !== undefined && !(o.width > 0)) || (o.height !== undefined && !(o.height > 0)))) {
+      errors.push("every obstacle needs a position inside the map and a positive size");
+    }
+    
+    const spawnPoints = map.spawnPoints || [];
+    spawnPoints.forEach((point, index) => {
+      if (!inBounds(point)) {
+        errors.push(`spawn point ${index} is outside the map`);
+      } else if (this.#isNearObstacle(obstacles, point.x, point.y, this.PLAYER_BODY_SIZE / 2)) {
+        errors.push(`spawn point ${index} is too close to an obstacle for a player to fit`);
+      }
+    });
+    
+    const isSpawnTable = table => table === undefined || !!this.POWERUP_SPAWN_TABLES[table];
+    (map.powerupZones || []).forEach((zone, index) => {
+      if (!inBounds(zone) || !(zone.radius > 0)) {
+        errors.push(`powerup zone ${index} needs a position inside the map and a positive radius`);
+      } else if (!isSpawnTable(zone.table)) {
+        errors.push(`powerup zone ${index} uses unknown spawn table "${zone.table}"`);
+      }
+    });
+    
+    const padIds = new Set();
+    (map.powerupPads || []).forEach((pad, index) => {
+      if (!pad.id || padIds.has(pad.id)) {
+        errors.push(`powerup pad ${index} needs a unique id`);
+      } else if (!inBounds(pad)) {
+        errors.push(`powerup pad ${pad.id} is outside the map`);
+      } else if (this.#isNearObstacle(obstacles, pad.x, pad.y, this.POWERUP_PICKUP_RADIUS)) {
+        errors.push(`powerup pad ${pad.id} is inside an obstacle`);
+      } else if (!isSpawnTable(pad.table)) {
+        errors.push(`powerup pad ${pad.id} uses unknown spawn table "${pad.table}"`);
+      } else if (pad.respawnDelay !== undefined && !(pad.respawnDelay > 0)) {
+        errors.push(`powerup pad ${pad.id} needs a positive respawn delay`);
+      }
+      padIds.add(pad.id);
+    });
+    
+    // When a map authors spawn points, team modes need one usable by each team
+    if (this.#isTeamMode(mode) && spawnPoints.length > 0) {
+      this.TEAMS.forEach(team => {
+        if (!spawnPoints.some(p => !p.team || p.team === team)) {
+          errors.push(`no spawn point for team ${team}`);
+        }
+      });
+    }
+    
+    if (mode === "ctf") {
+      this.TEAMS.forEach(team => {
+        if (!map.bases || !inBounds(map.bases[team])) {
+          errors.push(`capture the flag needs a base for team ${team}`);
+        }
+      });
+    }
+    
+    if (mode === "koth") {
+      const zones = map.zones || [];
+      if (zones.length === 0) {
+        errors.push("king of the hill needs at least one zone");
+      }
+      zones.forEach((zone, index) => {
+        if (!zone.id || !inBounds(zone) || !(zone.radius > 0)) {
+          errors.push(`zone ${index} needs an id, a position inside the map and a positive radius`);
+        }
+      });
+    }
+    
+    return errors;
+  }
+  
+  // Random point at least MAP_EDGE_MARGIN away from the border
+  #randomPointInMap(map) {
+    const width = map ? map.width : this.MAP_SIZE;
+    const height = map ? map.height : this.MAP_SIZE;
+    return {
+      x: Math.floor(Math.random() * (width - 2 * this.MAP_EDGE_MARGIN)) + this.MAP_EDGE_MARGIN,
+      y: Math.floor(Math.random() * (height - 2 * this.MAP_EDGE_MARGIN)) + this.MAP_EDGE_MARGIN
+    };
+  }
+  
+  #clampToMap(map, point) {
+    const width = map ? map.width : this.MAP_SIZE;
+    const height = map ? map.height : this.MAP_SIZE;
+    return {
+      x: Math.min(width - this.MAP_EDGE_MARGIN, Math.max(this.MAP_EDGE_MARGIN, point.x)),
+      y: Math.min(height - this.MAP_EDGE_MARGIN, Math.max(this.MAP_EDGE_MARGIN, point.y))
+    };
+  }
+  
+  // Use a numeric seed from the room options, or roll a new one
+  #parseSeed(seed) {
+    const parsed = parseInt(seed, 10);
+    if (Number.isFinite(parsed) && parsed > 0) return parsed % 2147483647;
+    return Math.floor(Math.random() * 2147483646) + 1;
+  }
+  
+  // Deterministic PRNG (mulberry32) returning floats in [0, 1)
+  #createRandom(seed) {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6D2B79F5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+  
+  // Function to generate obstacle positions
+  // Walls are rectangles of whole tiles, placed with their symmetric copy, and a wall is only
+  // kept if every open tile stays reachable from every other one
+  #generateObstacles(clearAreas = [], seed = 1, symmetry = "rotational", size = this.MAP_SIZE) {
+    const random = this.#createRandom(seed);
+    const tiles = Math.floor(size / this.MAP_TILE_SIZE);
+    const blocked = Array.from({ length: tiles }, () => new Array(tiles).fill(false));
+    const obstacles = [];
+    
+    // Border obstacles have fixed positions and are handled by the client
+    for (let i = 0; i < tiles; i++) {
+      blocked[0][i] = blocked[tiles - 1][i] = blocked[i][0] = blocked[i][tiles - 1] = true;
+    }
+    
+    // Tiles whose center is inside an objective or spawn area stay open
+    const isClearTile = (col, row) => {
+      const x = (col + 0.5) * this.MAP_TILE_SIZE;
+      const y = (row + 0.5) * this.MAP_TILE_SIZE;
+      return clearAreas.some(area => Math.hypot(area.x - x, area.y - y) < area.radius + this.MAP_TILE_SIZE / 2);
+    };
+    
+    let placed = 0;
+    for (let attempt = 0; attempt < this.WALL_PLACEMENT_ATTEMPTS && placed < this.OBSTACLE_COUNT; attempt++) {
+      // Pick a horizontal or vertical wall of random length and thickness
+      const length = this.WALL_MIN_LENGTH + Math.floor(random() * (this.WALL_MAX_LENGTH - this.WALL_MIN_LENGTH + 1));
+      const thickness = 1 + Math.floor(random() * this.WALL_MAX_THICKNESS);
+      const horizontal = random() < 0.5;
+      const width = horizontal ? length : thickness;
+      const height = horizontal ? thickness : length;
+      const col = 1 + Math.floor(random() * (tiles - 1 - width));
+      const row = 1 + Math.floor(random() * (tiles - 1 - height));
+      
+      const walls = [{ col, row, width, height }];
+      const mirrored = this.#mirrorWall(walls[0], symmetry, tiles);
+      if (mirrored.col !== col || mirrored.row !== row) walls.push(mirrored);
+      
+      // Collect the tiles, rejecting walls that overlap others or cover clear areas
+      const wallTiles = [];
+      walls.forEach(wall => {
+        for (let c = wall.col; c < wall.col + wall.width; c++) {
+          for (let r = wall.row; r < wall.row + wall.height; r++) {
+            wallTiles.push([c, r]);
+          }
+        }
+      });
+      if (wallTiles.some(([c, r]) => blocked[c][r] || isClearTile(c, r))) continue;
+      
+      // Place tentatively and undo if the arena is no longer connected
+      wallTiles.forEach(([c, r]) => { blocked[c][r] = true; });
+      if (!this.#isArenaConnected(blocked)) {
+        wallTiles.forEach(([c, r]) => { blocked[c][r] = false; });
+        continue;
+      }
+      
+      walls.forEach(wall => {
+        obstacles.push({
+          x: (wall.col + wall.width / 2) * this.MAP_TILE_SIZE,
+          y: (wall.row + wall.height / 2) * this.MAP_TILE_SIZE,
+          width: wall.width * this.MAP_TILE_SIZE,
+          height: wall.height * this.MAP_TILE_SIZE
+        });
+      });
+      placed++;
+    }
+    
+    return obstacles;
+  }
+  
+  // Symmetric copy of a wall on a square grid
+  #mirrorWall(wall, symmetry, tiles) {
+    const mirroredCol = tiles - wall.col - wall.width;
+    const mirroredRow = tiles - wall.row - wall.height;
+    
+    switch (symmetry) {
+      case "mirror-x":
+        return { ...wall, col: mirroredCol };
+      case "mirror-y":
+        return { ...wall, row: mirroredRow };
+      case "rotational":
+        return { ...wall, col: mirroredCol, row: mirroredRow };
+      default:
+        return { ...wall };
+    }
+  }
+  
+  // Flood fill from the first open tile and check that it reaches every open tile
+  #isArenaConnected(blocked) {
+    const tiles = blocked.length;
+    const visited = Array.from({ length: tiles }, () => new Array(tiles).fill(false));
+    let openCount = 0;
+    let start = null;
+    
+    for (let c = 0; c < tiles; c++) {
+      for (let r = 0; r < tiles; r++) {
+        if (blocked[c][r]) continue;
+        openCount++;
+        if (!start) start = [c, r];
+      }
+    }
+    if (!start) return true;
+    
+    const stack = [start];
+    visited[start[0]][start[1]] = true;
+    let reached = 0;
+    
+    while (stack.length > 0) {
+      const [c, r] = stack.pop();
+      reached++;
+      
+      for (const [dc, dr] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+        const nc = c + dc;
+        const nr = r + dr;
+        if (nc < 0 || nr < 0 || nc >= tiles || nr >= tiles) continue;
+        if (blocked[nc][nr] || visited[nc][nr]) continue;
+        visited[nc][nr] = true;
+        stack.push([nc, nr]);
+      }
+    }
+    
+    return reached === openCount;
+  }
+  
+  // Whether a point is within `clearance` of any obstacle's edge
+  #isNearObstacle(obstacles, x, y, clearance) {
+    return (obstacles || []).some(o => {
+      const halfWidth = (o.width || this.OBSTACLE_SIZE) / 2;
+      const halfHeight = (o.height || this.OBSTACLE_SIZE) / 2;
+      const dx = Math.max(Math.abs(x - o.x) - halfWidth, 0);
+      const dy = Math.max(Math.abs(y - o.y) - halfHeight, 0);
+      return Math.hypot(dx, dy) < clearance;
+    });
+  }
+  
+  // Mode-specific objective state, used when a room is created and at the start of each round
+  #createObjectives(mode, layout) {
+    if (mode === "koth") {
+      return {
+        zones: layout.zones.map(zone => ({
+          ...zone,
+          owner: null, // Account holding the zone
+          capturer: null, // Account currently capturing it
+          progress: 0, // Capture progress for the capturer, 0 to 1, in PROGRESS_STEP steps
+          contested: false,
+          // Progress and scoring are timed from timestamps so the zone is only rewritten
+          // when something players can see changes
+          captureBase: 0, // Exact progress when the current capture run started
+          captureStartedAt: null, // null while the capture is paused
+          scoringSince: null // When the owner's next point started accruing
+        }))
+      };
+    }
+    if (mode !== "ctf") return {};
+    
+    const flags = {};
+    this.TEAMS.forEach(team => {
+      flags[team] = this.#createHomeFlag(team, layout.bases);
+    });
+    
+    const captures = {};
+    this.TEAMS.forEach(team => { captures[team] = 0; });
+    
+    return { flags, captures };
+  }
+  
+  #createHomeFlag(team, bases) {
+    const base = bases[team];
+    return {
+      team,
+      x: base.x,
+      y: base.y,
+      status: "home", // home | carried | dropped
+      carrierId: null,
+      droppedAt: null
+    };
+  }
+  
+  #getScoreTarget(mode) {
+    if (mode === "ctf") return this.CAPTURE_TARGET;
+    if (mode === "koth") return this.KOTH_SCORE_TARGET;
+    return this.#isTeamMode(mode) ? this.TEAM_KILL_TARGET : this.KILL_TARGET;
+  }
+  
+  #isTeamMode(mode) {
+    return this.TEAM_MODES.includes(mode);
+  }
+  
+  // Pick the team with the fewest players
+  #pickTeam(userStates, account) {
+    const counts = {};
+    this.TEAMS.forEach(team => { counts[team] = 0; });
+    (userStates || []).forEach(u => {
+      if (u.account !== account && counts[u.team] !== undefined) counts[u.team]++;
+    });
+    
+    return this.TEAMS.reduce((smallest, team) =>
+      counts[team] < counts[smallest] ? team : smallest
+    );
+  }
+  
+  // Teammates can't hurt each other unless friendly fire is on
+  #isFriendly(roomState, a, b) {
+    if (!roomState || !this.#isTeamMode(roomState.mode) || this.#getRoomRules(roomState).friendlyFire) return false;
+    return !!a.team && a.team === b.team;
+  }
+  
+  // Team scores: flag captures in capture the flag, summed player scores otherwise
+  #getTeamScores(roomState, userStates) {
+    if (roomState.mode === "ctf") {
+      return { ...(roomState.captures || {}) };
+    }
+    
+    const teamScores = {};
+    this.TEAMS.forEach(team => { teamScores[team] = 0; });
+    userStates.forEach(u => {
+      if (teamScores[u.team] !== undefined) teamScores[u.team] += u.score || 0;
+    });
+    return teamScores;
+  }
+  
+  // Pick a spawn point clear of obstacles and as far from living enemies as possible
+  #pickSpawnPoint(roomState, userStates, account, team = null) {
+    const obstacles = roomState.obstacles;
+    const map = roomState.map;
+    const base = roomState.bases && team ? roomState.bases[team] : null;
+    
+    // Authored spawn points for this player's team (or untagged ones) take priority
+    const spawnPoints = ((map && map.spawnPoints) || []).filter(p => !p.team || !team || p.team === team);
+    const enemies = (userStates || []).filter(u =>
+      u.account !== account && !u.dead && u.x !== undefined && (!team || u.team !== team)
+    );
+    
+    let best = null;
+    let bestDistance = -1;
+    
+    for (let i = 0; i < this.SPAWN_ATTEMPTS; i++) {
+      // Use the map's spawn points, then the team base, then anywhere
+      let candidate;
+      if (spawnPoints.length > 0) {
+        const spawnPoint = spawnPoints[Math.floor(Math.random() * spawnPoints.length)];
+        candidate = { x: spawnPoint.x, y: spawnPoint.y };
+      } else if (base) {
+        candidate = this.#clampToMap(map, {
+          x: Math.floor(base.x + (Math.random() * 2 - 1) * this.BASE_SPAWN_RADIUS),
+          y: Math.floor(base.y + (Math.random() * 2 - 1) * this.BASE_SPAWN_RADIUS)
+        });
+      } else {
+        candidate = this.#randomPointInMap(map);
+      }
+      
+      // Never spawn inside an obstacle
+      if (this.#isNearObstacle(obstacles, candidate.x, candidate.y, this.SPAWN_OBSTACLE_CLEARANCE)) continue;
+      
+      const nearestEnemy = enemies.reduce(
+        (min, e) => Math.min(min, Math.hypot(e.x - candidate.x, e.y - candidate.y)),
+        Infinity
+      );
+      if (nearestEnemy >= this.SPAWN_ENEMY_DISTANCE) return candidate;
+      
+      // Otherwise keep the candidate furthest from any enemy as a fallback
+      if (nearestEnemy > bestDistance) {
+        best = candidate;
+        bestDistance = nearestEnemy;
+      }
+    }
+    
+    if (best) return best;
+    if (base) return { x: base.x, y: base.y };
+    return map ? { x: map.width / 2, y: map.height / 2 } : { x: 1000, y: 1000 };
+  }
+  
+  // Put every remote function behind its validator. Calls that fail are counted against
+  // the caller and never reach the game logic
+  #installValidators() {
+    Object.entries(this.#createValidators()).forEach(([name, validate]) => {
+      const method = this[name];
+      const inRoom = !this.LOBBY_FUNCTIONS.includes(name);
+      this[name] = async (...args) => {
+        const violation = validate(...args);
+        if (violation) {
+          await this.#recordViolation(violation);
+          throw new Error(`${name} rejected: ${violation}`);
+        }
+        if (inRoom && ((await $room.getMyState()) || {}).kicked) {
+          throw new Error(`${name} rejected: kicked from the room`);
+        }
+        return method.apply(this, args);
+      };
+    });
+  }
+  
+  // Shape checks for the arguments of each remote function; each returns a violation
+  // reason or null. Checks that need game state (speed, range, cooldowns) happen inside
+  // the functions, which report through #recordViolation
+  #createValidators() {
+    const isObject = value => value !== null && typeof value === "object" && !Array.isArray(value);
+    const isNumber = value => typeof value === "number" && Number.isFinite(value);
+    const isId = value => typeof value === "string" && value.length > 0 && value.length <= this.MAX_ID_LENGTH;
+    const isAxis = value => value === -1 || value === 0 || value === 1;
+    const isOptionalNumber = value => value === undefined || isNumber(value);
+    const isTimestamp = isOptionalNumber;
+    
+    return {
+      joinRoom: (roomId, options) => {
+        if (roomId && typeof roomId !== "string") return "invalid room id";
+        if (options !== undefined && !isObject(options)) return "invalid room options";
+        if (options && options.characterClass !== undefined && typeof options.characterClass !== "string") {
+          return "invalid character class";
+        }
+        if (options && options.roomName !== undefined &&
+          !(typeof options.roomName === "string" && options.roomName.length <= this.MAX_ROOM_NAME_LENGTH)) {
+          return "invalid room name";
+        }
+        if (options && options.visibility !== undefined && !this.ROOM_VISIBILITIES.includes(options.visibility)) {
+          return "unknown room visibility";
+        }
+        if (options && options.password !== undefined &&
+          !(typeof options.password === "string" && options.password.length <= this.MAX_PASSWORD_LENGTH)) {
+          return "invalid room password";
+        }
+        if (options && options.visibility === "password" && !options.password && !roomId) {
+          return "missing room password";
+        }
+        return null;
+      },
+      setRoomRules: changes => {
+        if (!isObject(changes)) return "invalid room rules";
+        for (const [rule, limits] of Object.entries(this.ROOM_RULE_LIMITS)) {
+          const value = changes[rule];
+          if (value !== undefined && !(isNumber(value) && value >= limits.min && value <= limits.max)) {
+            return `invalid ${rule}`;
+          }
+        }
+        if ([changes.maxPlayers, changes.roundDuration, changes.scoreTarget].some(v => v !== undefined && !Number.isInteger(v))) {
+          return "invalid room rules";
+        }
+        if ([changes.powerups, changes.friendlyFire].some(v => v !== undefined && typeof v !== "boolean")) {
+          return "invalid room rules";
+        }
+        if (changes.mapId !== undefined && !isId(changes.mapId)) return "invalid map id";
+        return null;
+      },
+      setRoomLocked: data => (isObject(data) && typeof data.locked === "boolean" ? null : "invalid lock"),
+      kickPlayer: data => (isObject(data) && isId(data.playerId) ? null : "invalid player id"),
+      transferHost: data => (isObject(data) && isId(data.playerId) ? null : "invalid player id"),
+      listRooms: filters => {
+        if (filters !== undefined && !isObject(filters)) return "invalid room filters";
+        if (filters && filters.mode !== undefined && !this.GAME_MODES.includes(filters.mode)) return "unknown game mode";
+        if (filters && [filters.hideFull, filters.hidePasswordProtected].some(flag => flag !== undefined && typeof flag !== "boolean")) {
+          return "invalid room filters";
+        }
+        return null;
+      },
+      leaveRoom: () => null,
+      joinQueue: options => {
+        if (options !== undefined && !isObject(options)) return "invalid queue options";
+        if (options && options.mode !== undefined && !this.GAME_MODES.includes(options.mode)) return "unknown game mode";
+        return null;
+      },
+      pollQueue: () => null,
+      leaveQueue: () => null,
+      getMapList: () => null,
+      getServerTime: () => null,
+      getRoomTraffic: () => null,
+      setPlayerData: data => (isObject(data) && typeof data.name === "string" ? null : "invalid player data"),
+      submitInputs: data => {
+        if (!isObject(data) || !Number.isInteger(data.life) || !Array.isArray(data.inputs)) return "invalid inputs";
+        const valid = data.inputs.every(input =>
+          isObject(input) &&
+          Number.isInteger(input.seq) &&
+          isAxis(input.moveX) &&
+          isAxis(input.moveY) &&
+          isNumber(input.duration) &&
+          input.duration >= 0 &&
+          input.duration <= this.MAX_INPUT_DURATION &&
+          (input.angle === undefined || this.#isFacingAngle(input.angle))
+        );
+        return valid ? null : "malformed input";
+      },
+      fireProjectile: data =>
+        (isObject(data) && isId(data.id) && isNumber(data.targetX) && isNumber(data.targetY) ? null : "invalid projectile"),
+      playerAttack: data =>
+        (isObject(data) && isTimestamp(data.timestamp) ? null : "invalid attack"),
+      playerHit: data =>
+        (isObject(data) && isId(data.targetId) && isId(data.projectileId) && isTimestamp(data.timestamp) ? null : "invalid hit"),
+      setBlocking: data =>
+        (isObject(data) && typeof data.blocking === "boolean" ? null : "invalid block"),
+      dodge: data =>
+        (isObject(data) && (data.moveX === undefined || isAxis(data.moveX)) && (data.moveY === undefined || isAxis(data.moveY)) ?
+          null :
+          "invalid dodge"),
+      getLeaderboard: query => {
+        if (!isObject(query)) return "invalid leaderboard query";
+        if (!this.LEADERBOARD_WINDOWS.includes(query.window)) return "unknown leaderboard window";
+        if (!this.LEADERBOARD_METRICS.includes(query.metric)) return "unknown leaderboard metric";
+        if (query.page !== undefined && !(Number.isInteger(query.page) && query.page >= 0)) return "invalid page";
+        if (query.pageSize !== undefined &&
+          !(Number.isInteger(query.pageSize) && query.pageSize > 0 && query.pageSize <= this.LEADERBOARD_MAX_PAGE_SIZE)) {
+          return "invalid page size";
+        }
+        return null;
+      },
+      useAbility: data =>
+        (isObject(data) && isTimestamp(data.timestamp) && isOptionalNumber(data.targetX) && isOptionalNumber(data.targetY) ?
+          null :
+          "invalid ability")
+    };
+  }
+  
+  // Count a violation against the caller and kick them once they pile up; returns
+  // whether the caller was kicked
+  async #recordViolation(reason) {
+    const account = $sender.account;
+    const now = Date.now();
+    const record = this.violations.get(account) || { total: 0, recent: [] };
+    record.total++;
+    record.recent = record.recent.filter(time => now - time < this.VIOLATION_WINDOW);
+    record.recent.push(now);
+    this.violations.set(account, record);
+    console.warn(`Violation by ${account}: ${reason} (${record.recent.length}/${this.VIOLATION_LIMIT}, ${record.total} total)`);
+    
+    if (record.recent.length < this.VIOLATION_LIMIT) return false;
+    record.recent = [];
+    await this.#kickSender(reason);
+    return true;
+  }
+  
+  async #kickSender(reason) {
+    const account = $sender.account;
+    const roomId = this.playerRooms.get(account);
+    this.kickedUntil.set(account, Date.now() + this.KICK_COOLDOWN);
+    this.positionHistory.delete(account);
+    this.inputClocks.delete(account);
+    this.matchStats.delete(account); // Progress made while cheating is not saved
+    this.matchQueue.delete(account);
+    this.#unlistPlayer(account);
+    
+    // The caller may not be in a room (e.g. a rejected join), so failures here are only logged
+    try {
+      await this.#dropFlagsCarriedBy(roomId, account);
+      await this.#broadcast(roomId, "playerKicked", { playerId: account, reason });
+      this.playerRooms.delete(account);
+      await $global.leaveRoom();
+    } catch (error) {
+      console.error("Error kicking player:", error);
+    }
+  }
+  
+  async leaveRoom() {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      const roomState = await $room.getRoomState();
+      
+      // Stats of an unfinished round still count, but only finished matches give XP.
+      // Warm-up fights outside a round don't count at all
+      if (roomState && roomState.phase === "playing") {
+        const myState = await $room.getMyState();
+        await this.#saveProgress($sender.account, myState && myState.name, null);
+      } else {
+        this.matchStats.delete($sender.account);
+      }
+      
+      // Hand the host role over right away rather than on the next listing refresh
+      if (roomState && roomState.host === $sender.account) {
+        const nextHost = (await this.#getPlayerStates()).find(u => u.account !== $sender.account);
+        await this.#updateRoomState(roomId, { host: nextHost ? nextHost.account : null });
+      }
+      
+      this.positionHistory.delete($sender.account);
+      this.inputClocks.delete($sender.account);
+      this.#unlistPlayer($sender.account);
+      this.playerRooms.delete($sender.account);
+      await $global.leaveRoom();
+      return "success";
+    } catch (error) {
+      console.error("Error leaving room:", error);
+      throw error;
+    }
+  }
+  
+  async setPlayerData(data) {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      await this.#updateMyState(roomId, {
+        name: data.name.trim().slice(0, this.MAX_NAME_LENGTH) || "Player"
+      });
+      return "success";
+    } catch (error) {
+      console.error("Error setting player data:", error);
+      throw error;
+    }
+  }
+  
+  // Movement arrives as sequenced inputs that the server simulates itself, so clients
+  // can never set their own position
+  async submitInputs(data) {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      const myState = await $room.getMyState();
+      if (!myState || myState.dead || data.life !== myState.life) return "ignored";
+      
+      const roomState = await $room.getRoomState();
+      const now = Date.now();
+      
+      // Movement time is earned in real time, which stops speed hacks via long or extra inputs
+      const clock = this.inputClocks.get($sender.account) || { budget: this.MAX_INPUT_BUDGET, lastInputAt: now };
+      let budget = Math.min(this.MAX_INPUT_BUDGET, clock.budget + now - clock.lastInputAt);
+      
+      const speed = this.#getCharacterClass(myState).speed *
+        this.#getEffectModifier(myState, "speedMultiplier", now) *
+        (myState.blocking ? this.BLOCK_SPEED_MULTIPLIER : 1);
+      let position = { x: myState.x, y: myState.y };
+      let angle = myState.angle ?? 0;
+      let inputSeq = myState.inputSeq || 0;
+      let moving = myState.anim === "walk";
+      
+      const inputs = data.inputs
+        .slice(0, this.MAX_INPUTS_PER_BATCH)
+        .filter(input => input.seq > inputSeq)
+        .sort((a, b) => a.seq - b.seq);
+      
+      // Inputs are clamped to the budget either way; asking for far more than real time
+      // allows is a speed hack rather than lag
+      const requested = inputs.reduce((total, input) => total + input.duration, 0);
+      if (requested - budget > this.SPEED_VIOLATION_MARGIN &&
+        await this.#recordViolation("movement faster than real time")) {
+        return "kicked";
+      }
+      
+      for (const input of inputs) {
+        const { moveX, moveY } = input;
+        const duration = Math.min(input.duration, budget);
+        budget -= duration;
+        
+        position = this.#simulateMovement(position, { moveX, moveY, duration }, speed, roomState);
+        moving = moveX !== 0 || moveY !== 0;
+        
+        // Clients may aim independently of movement (mouse aim); otherwise face where we move
+        if (input.angle !== undefined) {
+          angle = input.angle;
+        } else if (moving) {
+          angle = this.#getFacingAngle(moveX, moveY);
+        }
+        
+        // Acknowledge every input, even ones cut short, so the client stops replaying them
+        inputSeq = input.seq;
+      }
+      
+      this.inputClocks.set($sender.account, { budget, lastInputAt: now });
+      if (inputs.length === 0) return "success";
+      
+      // Replicate only what changed, with positions quantized to a tenth of a pixel
+      const x = this.#quantize(position.x);
+      const y = this.#quantize(position.y);
+      const anim = moving ? "walk" : "idle"; // Replicated so other clients animate this knight
+      const changes = { inputSeq };
+      if (x !== myState.x) changes.x = x;
+      if (y !== myState.y) changes.y = y;
+      if (angle !== myState.angle) changes.angle = angle;
+      if (anim !== myState.anim) changes.anim = anim;
+      
+      await this.#updateMyState(roomId, changes);
+      this.#recordPosition($sender.account, x, y, now);
+      return "success";
+    } catch (error) {
+      console.error("Error applying inputs:", error);
+      throw error;
+    }
+  }
+  
+  #isFacingAngle(value) {
+    return Number.isInteger(value) && value >= 0 && value < 360 && value % this.FACING_STEP === 0;
+  }
+  
+  // Nearest facing to a direction vector, or null without a direction; must stay identical
+  // to getFacingAngle in src/game/systems/Movement.ts
+  #getFacingAngle(x, y) {
+    if (x === 0 && y === 0) return null;
+    const degrees = Math.atan2(y, x) * 180 / Math.PI;
+    return (Math.round(degrees / this.FACING_STEP) * this.FACING_STEP + 360) % 360;
+  }
+  
+  #getFacingVector(angle) {
+    const radians = (angle || 0) * Math.PI / 180;
+    return { x: Math.cos(radians), y: Math.sin(radians) };
+  }
+  
+  // Advance a position by one input; must stay identical to simulateMovement in
+  // src/game/systems/Movement.ts so client replays match
+  #simulateMovement(position, input, speed, roomState) {
+    const half = this.PLAYER_BODY_SIZE / 2;
+    const width = roomState.map ? roomState.map.width : this.MAP_SIZE;
+    const height = roomState.map ? roomState.map.height : this.MAP_SIZE;
+    const obstacles = roomState.obstacles || [];
+    const duration = Math.min(Math.max(input.duration, 0), this.MAX_INPUT_DURATION);
+    const length = Math.hypot(input.moveX, input.moveY);
+    if (length === 0 || duration === 0) return { x: position.x, y: position.y };
+    
+    // Diagonal movement is normalized to the same speed
+    const step = speed * duration / 1000 / length;
+    let x = position.x;
+    let y = position.y;
+    
+    // Move one axis at a time and stop at the first obstacle edge
+    x += input.moveX * step;
+    for (const o of input.moveX !== 0 ? obstacles : []) {
+      const halfWidth = (o.width || this.OBSTACLE_SIZE) / 2;
+      const halfHeight = (o.height || this.OBSTACLE_SIZE) / 2;
+      if (Math.abs(x - o.x) < half + halfWidth && Math.abs(y - o.y) < half + halfHeight) {
+        x = input.moveX > 0 ? o.x - halfWidth - half : o.x + halfWidth + half;
+      }
+    }
+    x = Math.min(width - this.MAP_BORDER - half, Math.max(this.MAP_BORDER + half, x));
+    
+    y += input.moveY * step;
+    for (const o of input.moveY !== 0 ? obstacles : []) {
+      const halfWidth = (o.width || this.OBSTACLE_SIZE) / 2;
+      const halfHeight = (o.height || this.OBSTACLE_SIZE) / 2;
+      if (Math.abs(x - o.x) < half + halfWidth && Math.abs(y - o.y) < half + halfHeight) {
+        y = input.moveY > 0 ? o.y - halfHeight - half : o.y + halfHeight + half;
+      }
+    }
+    y = Math.min(height - this.MAP_BORDER - half, Math.max(this.MAP_BORDER + half, y));
+    
+    return { x, y };
+  }
+  
+  #quantize(value) {
+    return Math.round(value * 10) / 10;
+  }
+  
+  // Clients sync their clock with this to timestamp attacks in server time
+  async getServerTime() {
+    return Date.now();
+  }
+  
+  // Append to a player's position history; teleports (spawns) start a fresh history
+  #recordPosition(account, x, y, time, reset = false) {
+    const history = reset ? [] : (this.positionHistory.get(account) || []);
+    history.push({ time, x, y });
+    while (history.length > 1 && history[0].time < time - this.POSITION_HISTORY_DURATION) {
+      history.shift();
+    }
+    this.positionHistory.set(account, history);
+  }
+  
+  // Clamp a client's view timestamp to the allowed rewind window
+  #getRewindTime(timestamp, now) {
+    const time = Number(timestamp);
+    if (!Number.isFinite(time)) return now;
+    return Math.min(now, Math.max(now - this.MAX_REWIND, time));
+  }
+  
+  // Where a player was at the given time, interpolated from their position history
+  #getRewoundPosition(userState, time) {
+    const history = this.positionHistory.get(userState.account);
+    const current = { x: userState.x, y: userState.y };
+    if (!history || history.length === 0) return current;
+    
+    // Before the history starts (just spawned) the oldest entry is the best answer
+    if (time <= history[0].time) return { x: history[0].x, y: history[0].y };
+    
+    for (let i = history.length - 1; i > 0; i--) {
+      const from = history[i - 1];
+      const to = history[i];
+      if (time >= from.time && time <= to.time) {
+        const t = to.time === from.time ? 1 : (time - from.time) / (to.time - from.time);
+        return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+      }
+    }
+    
+    return current;
+  }
+  
+  async fireProjectile(projectileData) {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      const ownerId = $sender.account;
+      if (!projectileData || typeof projectileData.id !== "string") return "invalid projectile";
+      
+      const ownerState = await $room.getMyState();
+      if (!ownerState || ownerState.x === undefined) return "player not found";
+      if (ownerState.dead) return "dead";
+      if (!this.#isCombatAllowed(await $room.getRoomState())) return "combat disabled";
+      
+      // Enforce the fire rate; shots well inside the interval are not explained by jitter
+      const now = Date.now();
+      const ranged = this.#getCharacterClass(ownerState).ranged;
+      const fireInterval = ranged.fireInterval * this.#getEffectModifier(ownerState, "fireIntervalMultiplier", now);
+      const sinceLastShot = now - (ownerState.lastFireAt || 0);
+      if (sinceLastShot < fireInterval) {
+        if (sinceLastShot < fireInterval * this.RATE_VIOLATION_RATIO &&
+          await this.#recordViolation("firing too fast")) {
+          return "kicked";
+        }
+        return "cooldown";
+      }
+      
+      // Every shot costs energy
+      const energy = ownerState.energy ?? this.MAX_ENERGY;
+      if (energy < ranged.energyCost) {
+        return "not enough energy";
+      }
+      
+      const dx = Number(projectileData.targetX) - ownerState.x;
+      const dy = Number(projectileData.targetY) - ownerState.y;
+      const length = Math.hypot(dx, dy);
+      if (!Number.isFinite(length) || length === 0) return "invalid target";
+      
+      const projectile = this.#createProjectileRecord(projectileData.id, ownerState, Math.atan2(dy, dx), ranged, now);
+      await this.#updateMyState(roomId, {
+        energy: energy - ranged.energyCost,
+        lastFireAt: now,
+        activeProjectiles: [...this.#getLiveProjectiles(ownerState, now), projectile]
+      });
+      
+      // Broadcast projectile fired event to all players in the room
+      await this.#broadcast(roomId, "projectileFired", this.#toProjectileMessage(projectile, ownerId));
+      return "success";
+    } catch (error) {
+      console.error("Error firing projectile:", error);
+      throw error;
+    }
+  }
+  
+  async playerAttack(attackData) {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      const attackerId = $sender.account;
+      
+      // Position and facing come from the attacker's stored state, not the request
+      const attackerState = await $room.getMyState();
+      if (!attackerState || attackerState.x === undefined) return "player not found";
+      if (attackerState.dead) return "dead";
+      
+      const roomState = await $room.getRoomState();
+      if (!this.#isCombatAllowed(roomState)) return "combat disabled";
+      
+      // Enforce the melee cooldown on the server
+      const now = Date.now();
+      const melee = this.#getCharacterClass(attackerState).melee;
+      const sinceLastAttack = now - (attackerState.lastAttackAt || 0);
+      if (sinceLastAttack < melee.cooldown) {
+        if (sinceLastAttack < melee.cooldown * this.RATE_VIOLATION_RATIO &&
+          await this.#recordViolation("attacking too fast")) {
+          return "kicked";
+        }
+        return "cooldown";
+      }
+      
+      // Swings cost stamina and can't be thrown from behind a block
+      if (attackerState.blocking) return "blocking";
+      const stamina = attackerState.stamina ?? this.MAX_STAMINA;
+      if (stamina < this.MELEE_STAMINA_COST) return "no stamina";
+      await this.#updateMyState(roomId, {
+        lastAttackAt: now,
+        stamina: stamina - this.MELEE_STAMINA_COST,
+        staminaUsedAt: now
+      });
+      
+      // Place the hitbox in front of the attacker, turned toward its facing, which also
+      // bounds the attack range
+      const angle = attackerState.angle ?? 0;
+      const facing = this.#getFacingVector(angle);
+      const reach = melee.hitboxOffset + melee.hitboxWidth / 2;
+      const hitbox = {
+        x: attackerState.x + facing.x * reach,
+        y: attackerState.y + facing.y * reach,
+        width: melee.hitboxWidth,
+        height: melee.hitboxHeight,
+        angle
+      };
+      
+      const damage = Math.round(
+        melee.damage * this.#getEffectModifier(attackerState, "damageMultiplier", now) * this.#getRoomRules(roomState).damageMultiplier
+      );
+      
+      // Check the hitbox against where every other player was on the attacker's screen
+      const rewindTime = this.#getRewindTime(attackData && attackData.timestamp, now);
+      const userStates = await this.#getPlayerStates();
+      const hits = [];
+      for (const target of userStates) {
+        if (target.account === attackerId || target.x === undefined || target.dead) continue;
+        if (this.#isFriendly(roomState, attackerState, target)) continue;
+        
+        const rewound = this.#getRewoundPosition(target, rewindTime);
+        const targetBounds = {
+          x: rewound.x,
+          y: rewound.y,
+          width: this.PLAYER_HITBOX_SIZE,
+          height: this.PLAYER_HITBOX_SIZE
+        };
+        if (!this.#rotatedRectangleOverlaps(hitbox, targetBounds)) continue;
+        
+        hits.push(await this.#applyDamage(target, attackerId, damage, attackerState));
+      }
+      
+      // Let every client play the swing and hit feedback
+      await this.#broadcast(roomId, "attackResolved", {
+        id: attackData && attackData.id,
+        kind: "melee",
+        attackerId,
+        x: attackerState.x,
+        y: attackerState.y,
+        angle,
+        hits
+      });
+      
+      return "success";
+    } catch (error) {
+      console.error("Error handling player attack:", error);
+      throw error;
+    }
+  }
+  
+  async playerHit(data) {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      // Hits are reported by the shooter, who sees targets as they were a moment ago
+      const attackerId = $sender.account;
+      const { targetId, projectileId, timestamp } = data;
+      if (targetId === attackerId) {
+        return await this.#recordViolation("hit on self") ? "kicked" : "invalid target";
+      }
+      
+      // The projectile must be one the attacker actually fired and still in flight
+      const now = Date.now();
+      const attackerState = await $room.getMyState();
+      const activeProjectiles = (attackerState && attackerState.activeProjectiles) || [];
+      const projectile = activeProjectiles.find(p => p.id === projectileId);
+      if (!projectile || now - projectile.firedAt > projectile.lifetime) {
+        return "invalid projectile";
+      }
+      
+      // Get target player state
+      const targetState = await $room.getUserState(targetId);
+      if (!targetState || targetState.kicked) return "player not found";
+      if (targetState.dead) return "target dead";
+      const roomState = await $room.getRoomState();
+      if (this.#isFriendly(roomState, attackerState, targetState)) return "friendly";
+      
+      // Rewind the target to the shooter's view and check it was on the flight path
+      const rewindTime = this.#getRewindTime(timestamp, now);
+      const rewound = this.#getRewoundPosition({ ...targetState, account: targetId }, rewindTime);
+      if (!this.#isOnProjectilePath(projectile, rewound, rewindTime, roomState.obstacles)) return "miss";
+      
+      // Each projectile can only hit once
+      await this.#updateMyState(roomId, {
+        activeProjectiles: activeProjectiles.filter(p => p.id !== projectileId)
+      });
+      
+      // Damage comes from the class the projectile was fired with, whatever the client claims
+      const hit = await this.#applyDamage(
+        { ...targetState, account: targetId },
+        attackerId,
+        Math.round(
+          projectile.damage * this.#getEffectModifier(attackerState, "damageMultiplier", now) * this.#getRoomRules(roomState).damageMultiplier
+        ),
+        projectile
+      );
+      
+      await this.#broadcast(roomId, "attackResolved", {
+        id: projectileId,
+        kind: "projectile",
+        attackerId,
+        hits: [hit]
+      });
+      
+      return "success";
+    } catch (error) {
+      console.error("Error handling player hit:", error);
+      throw error;
+    }
+  }
+  
+  async useAbility(data) {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      const casterId = $sender.account;
+      const casterState = await $room.getMyState();
+      if (!casterState || casterState.x === undefined) return "player not found";
+      if (casterState.dead) return "dead";
+      
+      const roomState = await $room.getRoomState();
+      if (!this.#isCombatAllowed(roomState)) return "combat disabled";
+      
+      const ability = this.#getCharacterClass(casterState).ability;
+      const now = Date.now();
+      const readyAt = casterState.abilityReadyAt || 0;
+      if (now < readyAt) {
+        const sinceLastUse = now - (readyAt - ability.cooldown);
+        if (sinceLastUse < ability.cooldown * this.RATE_VIOLATION_RATIO &&
+          await this.#recordViolation("ability used too fast")) {
+          return "kicked";
+        }
+        return "cooldown";
+      }
+      
+      const abilityReadyAt = now + ability.cooldown;
+      const facingAngle = casterState.angle ?? 0;
+      
+      if (ability.kind === "dash") {
+        // Rush along the facing direction; walls still stop it
+        const facing = this.#getFacingVector(facingAngle);
+        const { x, y } = this.#simulateRush(
+          casterState,
+          { moveX: Math.round(facing.x), moveY: Math.round(facing.y) },
+          ability.distance,
+          this.DASH_DURATION,
+          roomState
+        );
+        await this.#updateMyState(roomId, { x, y, abilityReadyAt });
+        this.#recordPosition(casterId, x, y, now);
+        
+        await this.#broadcast(roomId, "abilityUsed", {
+          kind: "dash",
+          playerId: casterId,
+          fromX: casterState.x,
+          fromY: casterState.y,
+          x,
+          y
+        });
+      } else if (ability.kind === "volley") {
+        // A fan of projectiles centered on the aim point; they cost no energy
+        const ranged = this.#getCharacterClass(casterState).ranged;
+        const aim = data.targetX === undefined || data.targetY === undefined ?
+          facingAngle * Math.PI / 180 :
+          Math.atan2(data.targetY - casterState.y, data.targetX - casterState.x);
+        const projectiles = [];
+        for (let i = 0; i < ability.count; i++) {
+          const offset = ability.count > 1 ? (i / (ability.count - 1) - 0.5) * ability.spread : 0;
+          projectiles.push(this.#createProjectileRecord(`${casterId}_volley_${now}_${i}`, casterState, aim + offset, ranged, now));
+        }
+        await this.#updateMyState(roomId, {
+          abilityReadyAt,
+          activeProjectiles: [...this.#getLiveProjectiles(casterState, now), ...projectiles]
+        });
+        
+        // The caster creates these from the broadcast too, since only the server knows the ids
+        for (const projectile of projectiles) {
+          await this.#broadcast(roomId, "projectileFired", { ...this.#toProjectileMessage(projectile, casterId), ability: true });
+        }
+        await this.#broadcast(roomId, "abilityUsed", { kind: "volley", playerId: casterId, x: casterState.x, y: casterState.y });
+      } else if (ability.kind === "nova") {
+        await this.#updateMyState(roomId, { abilityReadyAt });
+        
+        // Hit every enemy inside the radius as the caster saw them
+        const damage = Math.round(
+          ability.damage * this.#getEffectModifier(casterState, "damageMultiplier", now) * this.#getRoomRules(roomState).damageMultiplier
+        );
+        const rewindTime = this.#getRewindTime(data.timestamp, now);
+        const userStates = await this.#getPlayerStates();
+        const hits = [];
+        for (const target of userStates) {
+          if (target.account === casterId || target.x === undefined || target.dead) continue;
+          if (this.#isFriendly(roomState, casterState, target)) continue;
+          
+          const rewound = this.#getRewoundPosition(target, rewindTime);
+          const reach = ability.radius + this.PLAYER_HITBOX_SIZE / 2;
+          if (Math.hypot(rewound.x - casterState.x, rewound.y - casterState.y) > reach) continue;
+          
+          hits.push(await this.#applyDamage(target, casterId, damage, casterState));
+        }
+        
+        await this.#broadcast(roomId, "attackResolved", {
+          kind: "nova",
+          attackerId: casterId,
+          x: casterState.x,
+          y: casterState.y,
+          radius: ability.radius,
+          hits
+        });
+      }
+      
+      return "success";
+    } catch (error) {
+      console.error("Error using ability:", error);
+      throw error;
+    }
+  }
+  
+  #getCharacterClassId(id) {
+    return Object.prototype.hasOwnProperty.call(this.CHARACTER_CLASSES, id) ? id : this.DEFAULT_CHARACTER_CLASS;
+  }
+  
+  // Hold up a shield against frontal attacks; it drops by itself once stamina runs out
+  async setBlocking(data) {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      const myState = await $room.getMyState();
+      if (!myState || myState.dead) return "dead";
+      if (data.blocking === !!myState.blocking) return "success";
+      if (data.blocking && (myState.stamina ?? this.MAX_STAMINA) <= 0) return "no stamina";
+      
+      await this.#updateMyState(roomId, { blocking: data.blocking });
+      return "success";
+    } catch (error) {
+      console.error("Error setting block:", error);
+      throw error;
+    }
+  }
+  
+  // Roll in the held direction (or the facing one), untouchable for a moment
+  async dodge(data) {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      const playerId = $sender.account;
+      const myState = await $room.getMyState();
+      if (!myState || myState.x === undefined) return "player not found";
+      if (myState.dead) return "dead";
+      
+      const roomState = await $room.getRoomState();
+      if (!this.#isCombatAllowed(roomState)) return "combat disabled";
+      
+      const now = Date.now();
+      const sinceLastDodge = now - (myState.lastDodgeAt || 0);
+      if (sinceLastDodge < this.DODGE_COOLDOWN) {
+        if (sinceLastDodge < this.DODGE_COOLDOWN * this.RATE_VIOLATION_RATIO &&
+          await this.#recordViolation("dodging too fast")) {
+          return "kicked";
+        }
+        return "cooldown";
+      }
+      const stamina = myState.stamina ?? this.MAX_STAMINA;
+      if (stamina < this.DODGE_STAMINA_COST) return "no stamina";
+      
+      let moveX = data.moveX || 0;
+      let moveY = data.moveY || 0;
+      if (moveX === 0 && moveY === 0) {
+        const facing = this.#getFacingVector(myState.angle);
+        moveX = Math.round(facing.x);
+        moveY = Math.round(facing.y);
+      }
+      const { x, y } = this.#simulateRush(myState, { moveX, moveY }, this.DODGE_DISTANCE, this.DODGE_DURATION, roomState);
+      
+      // Rolling drops the guard
+      await this.#updateMyState(roomId, {
+        x,
+        y,
+        stamina: stamina - this.DODGE_STAMINA_COST,
+        staminaUsedAt: now,
+        lastDodgeAt: now,
+        invulnerableUntil: now + this.DODGE_INVULNERABILITY,
+        blocking: false
+      });
+      this.#recordPosition(playerId, x, y, now);
+      
+      await this.#broadcast(roomId, "playerDodged", {
+        playerId,
+        fromX: myState.x,
+        fromY: myState.y,
+        x,
+        y,
+        duration: this.DODGE_DURATION
+      });
+      return "success";
+    } catch (error) {
+      console.error("Error dodging:", error);
+      throw error;
+    }
+  }
+  
+  // Fast forced movement (dashes, rolls), simulated in regular input steps so walls stop it
+  #simulateRush(state, direction, distance, duration, roomState) {
+    const steps = Math.ceil(duration / this.MAX_INPUT_DURATION);
+    const speed = distance / (duration / 1000);
+    let position = { x: state.x, y: state.y };
+    for (let i = 0; i < steps; i++) {
+      position = this.#simulateMovement(position, { ...direction, duration: duration / steps }, speed, roomState);
+    }
+    return { x: this.#quantize(position.x), y: this.#quantize(position.y) };
+  }
+  
+  // Whether a point lies in the half-plane a player is facing
+  #isInFront(playerState, point) {
+    const facing = this.#getFacingVector(playerState.angle);
+    return (point.x - playerState.x) * facing.x + (point.y - playerState.y) * facing.y > 0;
+  }
+  
+  // Stats of the player's class; anything unknown plays as the default class
+  #getCharacterClass(playerState) {
+    return this.CHARACTER_CLASSES[this.#getCharacterClassId(playerState && playerState.characterClass)];
+  }
+  
+  // Server record of a projectile in flight; origin, direction and stats are fixed at launch
+  #createProjectileRecord(id, ownerState, angle, ranged, now) {
+    return {
+      id,
+      firedAt: now,
+      x: ownerState.x,
+      y: ownerState.y,
+      dirX: Math.cos(angle),
+      dirY: Math.sin(angle),
+      speed: ranged.speed,
+      lifetime: ranged.lifetime,
+      damage: ranged.damage
+    };
+  }
+  
+  #getLiveProjectiles(ownerState, now) {
+    return (ownerState.activeProjectiles || []).filter(p => now - p.firedAt < p.lifetime);
+  }
+  
+  #toProjectileMessage(projectile, ownerId) {
+    const range = projectile.speed * projectile.lifetime / 1000;
+    return {
+      id: projectile.id,
+      x: projectile.x,
+      y: projectile.y,
+      targetX: projectile.x + projectile.dirX * range,
+      targetY: projectile.y + projectile.dirY * range,
+      speed: projectile.speed,
+      lifetime: projectile.lifetime,
+      ownerId
+    };
+  }
+  
+  // Whether a player at this position is within reach of a projectile's straight flight,
+  // counting only the distance it could have covered by `time` and stopping at walls
+  #isOnProjectilePath(projectile, position, time, obstacles) {
+    const flown = projectile.speed * Math.max(0, time - projectile.firedAt) / 1000 + this.PROJECTILE_TRAVEL_TOLERANCE;
+    const range = Math.min(projectile.speed * projectile.lifetime / 1000, flown);
+    const along = Math.min(range, Math.max(0,
+      (position.x - projectile.x) * projectile.dirX + (position.y - projectile.y) * projectile.dirY
+    ));
+    const closestX = projectile.x + projectile.dirX * along;
+    const closestY = projectile.y + projectile.dirY * along;
+    
+    const reach = this.PLAYER_HITBOX_SIZE / 2 + this.PROJECTILE_HIT_TOLERANCE;
+    if (Math.hypot(position.x - closestX, position.y - closestY) > reach) return false;
+    return !this.#segmentCrossesObstacle(obstacles, projectile.x, projectile.y, closestX, closestY);
+  }
+  
+  // Slab test of the segment from (x1, y1) to (x2, y2) against each obstacle rectangle
+  #segmentCrossesObstacle(obstacles, x1, y1, x2, y2) {
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    return (obstacles || []).some(o => {
+      const halfWidth = (o.width || this.OBSTACLE_SIZE) / 2;
+      const halfHeight = (o.height || this.OBSTACLE_SIZE) / 2;
+      let enter = 0;
+      let exit = 1;
+      for (const [start, delta, min, max] of [
+        [x1, dx, o.x - halfWidth, o.x + halfWidth],
+        [y1, dy, o.y - halfHeight, o.y + halfHeight]
+      ]) {
+        if (delta === 0) {
+          if (start <= min || start >= max) return false;
+          continue;
+        }
+        const t1 = (min - start) / delta;
+        const t2 = (max - start) / delta;
+        enter = Math.max(enter, Math.min(t1, t2));
+        exit = Math.min(exit, Math.max(t1, t2));
+        if (enter >= exit) return false;
+      }
+      return true;
+    });
+  }
+  
+  // Apply damage from a source position to a player and resolve the kill if their health runs out
+  async #applyDamage(targetState, attackerId, damage, source) {
+    const targetId = targetState.account;
+    const roomId = this.playerRooms.get(targetId);
+    const now = Date.now();
+    const changes = {};
+    
+    // Rolling players can't be hit at all
+    if (now < (targetState.invulnerableUntil || 0)) {
+      const health = targetState.health ?? this.#getCharacterClass(targetState).maxHealth;
+      return { targetId, damage: 0, absorbed: 0, blocked: 0, dodged: true, health, killed: false };
+    }
+    
+    // A block stops most damage from the front, paid for in stamina; running dry breaks it
+    let blocked = 0;
+    if (targetState.blocking && source && this.#isInFront(targetState, source)) {
+      const stamina = targetState.stamina ?? this.MAX_STAMINA;
+      blocked = Math.min(
+        Math.round(damage * this.BLOCK_DAMAGE_REDUCTION),
+        Math.floor(stamina / this.BLOCK_STAMINA_PER_DAMAGE)
+      );
+      changes.stamina = stamina - blocked * this.BLOCK_STAMINA_PER_DAMAGE;
+      changes.staminaUsedAt = now;
+      if (changes.stamina < this.BLOCK_STAMINA_PER_DAMAGE) changes.blocking = false;
+      damage -= blocked;
+    }
+    
+    // Shields soak up damage first and break once they run out
+    const effects = Object.fromEntries(this.#getActiveEffects(targetState, now));
+    let absorbed = 0;
+    for (const [type, effect] of Object.entries(effects)) {
+      if (!effect.shield || absorbed === damage) continue;
+      const blocked = Math.min(effect.shield, damage - absorbed);
+      absorbed += blocked;
+      if (effect.shield > blocked) {
+        effects[type] = { ...effect, shield: effect.shield - blocked };
+      } else {
+        delete effects[type];
+      }
+    }
+    
+    const taken = damage - absorbed;
+    const health = Math.max(0, (targetState.health ?? this.#getCharacterClass(targetState).maxHealth) - taken);
+    const killed = health <= 0;
+    if (attackerId && attackerId !== targetId) {
+      this.#getMatchStats(attackerId).damageDealt += Math.min(taken, targetState.health ?? taken);
+    }
+    
+    if (killed) {
+      await this.#playerDied(roomId, { playerId: targetId, killerId: attackerId });
+    } else {
+      await this.#updateUserState(roomId, targetId, absorbed > 0 ? { ...changes, health, effects } : { ...changes, health });
+    }
+    
+    return { targetId, damage: taken, absorbed, blocked, dodged: false, health, killed };
+  }
+  
+  async joinQueue(options = {}) {
+    try {
+      if ((this.kickedUntil.get($sender.account) || 0) > Date.now()) {
+        throw new Error("Kicked for cheating; try again later");
+      }
+      
+      const now = Date.now();
+      this.matchQueue.set($sender.account, {
+        mode: (options && options.mode) || "ffa",
+        rating: await this.#getRating($sender.account),
+        queuedAt: now,
+        polledAt: now
+      });
+      return this.pollQueue();
+    } catch (error) {
+      console.error("Error joining queue:", error);
+      throw error;
+    }
+  }
+  
+  // Returns { status: "matched", roomId } once the caller should join a room ("" to create
+  // one), and otherwise how the search is going
+  async pollQueue() {
+    try {
+      const account = $sender.account;
+      const entry = this.matchQueue.get(account);
+      if (!entry) return { status: "idle" };
+      
+      const now = Date.now();
+      entry.polledAt = now;
+      this.matchQueue.forEach((other, id) => {
+        if (now - other.polledAt > this.QUEUE_TIMEOUT) this.matchQueue.delete(id);
+      });
+      
+      const waited = now - entry.queuedAt;
+      const range = this.#getQueueRange(waited);
+      const roomId = await this.#findQueueRoom(entry.mode, entry.rating, range);
+      
+      // Nothing open: open a room once the wait runs out, or right away when someone who
+      // queued later is within range, so they get matched into it
+      const partnerWaiting = [...this.matchQueue].some(([id, other]) =>
+        id !== account &&
+        other.mode === entry.mode &&
+        (other.queuedAt > entry.queuedAt || (other.queuedAt === entry.queuedAt && id > account)) &&
+        Math.abs(other.rating - entry.rating) <= Math.min(range, this.#getQueueRange(now - other.queuedAt))
+      );
+      if (roomId || waited >= this.QUEUE_FALLBACK_DELAY || partnerWaiting) {
+        this.matchQueue.delete(account);
+        this.queueWaits.push(waited);
+        if (this.queueWaits.length > this.QUEUE_WAIT_SAMPLES) this.queueWaits.shift();
+        return { status: "matched", roomId: roomId || "", mode: entry.mode };
+      }
+      
+      return {
+        status: "searching",
+        mode: entry.mode,
+        rating: entry.rating,
+        range,
+        waited,
+        estimatedWait: this.#getEstimatedQueueWait(waited),
+        queued: [...this.matchQueue.values()].filter(other => other.mode === entry.mode).length
+      };
+    } catch (error) {
+      console.error("Error polling queue:", error);
+      throw error;
+    }
+  }
+  
+  async leaveQueue() {
+    this.matchQueue.delete($sender.account);
+    return "success";
+  }
+  
+  #getQueueRange(waited) {
+    return Math.min(this.QUEUE_MAX_RANGE, this.QUEUE_BASE_RANGE + Math.floor(waited / 1000) * this.QUEUE_RANGE_GROWTH);
+  }
+  
+  // ms left to wait, going by how long recently matched players waited; never past the fallback
+  #getEstimatedQueueWait(waited) {
+    const typical = this.queueWaits.length > 0 ?
+      this.queueWaits.reduce((sum, wait) => sum + wait, 0) / this.queueWaits.length :
+      this.QUEUE_FALLBACK_DELAY;
+    return Math.round(Math.max(0, Math.min(typical, this.QUEUE_FALLBACK_DELAY) - waited));
+  }
+  
+  // The listed room of the mode with space whose average rating is closest to `rating`,
+  // within `range`; fuller rooms win ties. Listings are checked against the actual room
+  // members first, since players who drop without leaving stay listed
+  async #findQueueRoom(mode, rating, range) {
+    let best = null;
+    for (const [roomId, listing] of this.roomListings) {
+      if (listing.mode !== mode || listing.visibility !== "public" || listing.locked) continue;
+      
+      const accounts = (await $global.getRoomUserAccounts(roomId)) || [];
+      listing.players.forEach((_, account) => {
+        if (!accounts.includes(account)) this.#forgetPlayer(roomId, listing, account);
+      });
+      if (accounts.length === 0) {
+        this.roomListings.delete(roomId);
+        this.roomTraffic.delete(roomId);
+        continue;
+      }
+      if (accounts.length >= listing.maxPlayers || listing.players.size === 0) continue;
+      
+      const ratings = [...listing.players.values()];
+      const difference = Math.abs(ratings.reduce((sum, r) => sum + r, 0) / ratings.length - rating);
+      if (difference > range) continue;
+      if (!best || difference < best.difference ||
+        (difference === best.difference && accounts.length > best.size)) {
+        best = { roomId, difference, size: accounts.length };
+      }
+    }
+    return best ? best.roomId : null;
+  }
+  
+  #createRoomRules(mode, mapId) {
+    return {
+      maxPlayers: this.MAX_PLAYERS_PER_ROOM,
+      minPlayers: this.MIN_PLAYERS_TO_START, // Not up to the host
+      roundDuration: this.ROUND_DURATION,
+      scoreTarget: this.#getScoreTarget(mode),
+      damageMultiplier: 1,
+      powerups: true,
+      friendlyFire: false,
+      mapId
+    };
+  }
+  
+  // Rules of a room, with defaults for anything its state does not set
+  #getRoomRules(roomState) {
+    return { ...this.#createRoomRules(roomState.mode, roomState.map && roomState.map.id), ...roomState.rules };
+  }
+  
+  // Room state of the caller's room, when the caller hosts it
+  async #getHostedRoomState() {
+    const roomState = await $room.getRoomState();
+    if (!roomState || roomState.host !== $sender.account) {
+      throw new Error("Only the host can do that");
+    }
+    return roomState;
+  }
+  
+  // Change some of the room's rules. Not while a round is being played; a new map is
+  // loaded right away and everyone respawns on it
+  async setRoomRules(changes) {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      const roomState = await this.#getHostedRoomState();
+      if (roomState.phase === "playing") return "round in progress";
+      
+      const rules = { ...this.#getRoomRules(roomState) };
+      ["maxPlayers", "roundDuration", "scoreTarget", "damageMultiplier", "powerups", "friendlyFire"].forEach(rule => {
+        if (changes[rule] !== undefined) rules[rule] = changes[rule];
       });
       
-      // Initialize room state if this is a new room
-      const roomState = await $room.getRoomState();
-      if (!roomState.initialized) {
-        // Generate obstacle positions when creating a new room
-        const obstacles = this.generateObstacles();
-        
-        await $room.updateRoomState({
-          initialized: true,
-          gameTime: 0,
+      const update = {};
+      if (changes.mapId !== undefined && changes.mapId !== rules.mapId) {
+        const mapSeed = this.#parseSeed(null); // Random maps get a fresh seed
+        const map = this.#loadMap(changes.mapId, roomState.mode, mapSeed);
+        const layout = this.#getMapLayout(map);
+        Object.assign(update, {
+          map: layout,
+          bases: roomState.mode === "ctf" ? layout.bases : null,
+          mapSeed: map.generated ? mapSeed : null,
+          obstacles: map.obstacles,
           powerups: [],
-          obstacles: obstacles, // Save obstacle information
-          lastPowerupSpawn: Date.now()
+          padRespawnAt: {}
         });
+        rules.mapId = map.id;
       }
+      if (!rules.powerups) update.powerups = [];
       
-      return joinedRoomId;
+      await this.#updateRoomState(roomId, { ...update, rules });
+      if (update.map) {
+        await this.#resetPlayersForRound(roomId, await $room.getRoomState(), await this.#getPlayerStates());
+      }
+      return "success";
     } catch (error) {
-      console.error("Error joining room:", error);
+      console.error("Error setting room rules:", error);
       throw error;
     }
   }
   
-  // Function to generate obstacle positions
-  generateObstacles() {
-    const obstacles = [];
-    
-    // Border obstacles have fixed positions and are handled by the client
-    
-    // Generate random obstacles
-    for (let i = 0; i < this.OBSTACLE_COUNT; i++) {
-      const x = Math.floor(Math.random() * 1800) + 100; // 100 ~ 1900
-      const y = Math.floor(Math.random() * 1800) + 100; // 100 ~ 1900
-      obstacles.push({ x, y });
+  // A locked room takes no new players, whatever its visibility
+  async setRoomLocked(data) {
+    try {
+      const roomId = this.playerRooms.get($sender.account);
+      await this.#getHostedRoomState();
+      await this.#updateRoomState(roomId, { locked: data.locked });
+      const listing = this.roomListings.get(roomId);
+      if (listing) listing.locked = data.locked;
+      return "success";
+    } catch (error) {
+      console.error("Error locking room:", error);
+      throw error;
     }
-    
-    return obstacles;
   }
   
-  async leaveRoom() {
+  // Kicked players cannot come back to the room. Only a player can take themselves out of
+  // a room, so until the kicked client leaves its state is marked kicked: it is left out of
+  // the game and its remote calls are refused
+  async kickPlayer(data) {
     try {
-      await $global.leaveRoom();
+      const roomId = this.playerRooms.get($sender.account);
+      const roomState = await this.#getHostedRoomState();
+      if (data.playerId === $sender.account) return "cannot kick yourself";
+      const targetState = await $room.getUserState(data.playerId);
+      if (!targetState || targetState.kicked) return "player not found";
+      
+      await this.#updateRoomState(roomId, { bannedAccounts: [...(roomState.bannedAccounts || []), data.playerId] });
+      await this.#dropFlagsCarriedBy(roomId, data.playerId);
+      await this.#updateUserState(roomId, data.playerId, { kicked: true, activeProjectiles: [] });
+      this.#unlistPlayer(data.playerId);
+      this.playerRooms.delete(data.playerId);
+      this.positionHistory.delete(data.playerId);
+      this.inputClocks.delete(data.playerId);
+      this.matchStats.delete(data.playerId);
+      await this.#broadcast(roomId, "playerKicked", { playerId: data.playerId, reason: "Kicked by the host", byHost: true });
       return "success";
     } catch (error) {
-      console.error("Error leaving room:", error);
+      console.error("Error kicking player:", error);
       throw error;
     }
   }
   
-  async setPlayerData(data) {
+  async transferHost(data) {
     try {
-      await $room.updateMyState({
-        name: data.name
-      });
+      const roomId = this.playerRooms.get($sender.account);
+      await this.#getHostedRoomState();
+      const targetState = await $room.getUserState(data.playerId);
+      if (!targetState || targetState.kicked) return "player not found";
+      
+      await this.#updateRoomState(roomId, { host: data.playerId });
       return "success";
     } catch (error) {
-      console.error("Error setting player data:", error);
+      console.error("Error transferring host:", error);
       throw error;
     }
   }
   
-  async updatePlayerPosition(data) {
+  // What the room browser and matchmaking know about a room; created from its state
+  // and kept current by #updateRoomListing
+  #getRoomListing(roomId, roomState) {
+    if (!this.roomListings.has(roomId)) {
+      this.roomListings.set(roomId, {
+        name: roomState.roomName || "Open game",
+        mode: roomState.mode,
+        visibility: roomState.visibility || "public",
+        mapName: roomState.map ? roomState.map.name : null,
+        phase: roomState.phase || "waiting",
+        hostName: null,
+        playerCount: 0,
+        maxPlayers: this.#getRoomRules(roomState).maxPlayers,
+        locked: !!roomState.locked,
+        players: new Map(), // account -> rating
+        updatedAt: Date.now()
+      });
+    }
+    return this.roomListings.get(roomId);
+  }
+  
+  // Public and password rooms for the room browser, fullest first
+  async listRooms(filters = {}) {
     try {
-      await $room.updateMyState({
-        x: data.x,
-        y: data.y,
-        angle: data.angle,
-        health: data.health
+      const now = Date.now();
+      const rooms = [];
+      this.roomListings.forEach((listing, roomId) => {
+        if (now - listing.updatedAt > this.ROOM_LISTING_TIMEOUT) {
+          listing.players.forEach((_, account) => this.#forgetPlayer(roomId, listing, account));
+          this.roomListings.delete(roomId);
+          this.roomTraffic.delete(roomId);
+          return;
+        }
+        const passwordProtected = listing.visibility === "password";
+        const full = listing.playerCount >= listing.maxPlayers || listing.locked;
+        if (listing.visibility === "private" || listing.playerCount === 0) return;
+        if ((filters.mode && listing.mode !== filters.mode) || (filters.hideFull && full) || (filters.hidePasswordProtected && passwordProtected)) {
+          return;
+        }
+        
+        rooms.push({
+          roomId,
+          name: listing.name,
+          mode: listing.mode,
+          mapName: listing.mapName,
+          phase: listing.phase,
+          hostName: listing.hostName,
+          players: listing.playerCount,
+          maxPlayers: listing.maxPlayers,
+          passwordProtected,
+          locked: listing.locked
+        });
       });
-      return "success";
+      return rooms.sort((a, b) => b.players - a.players);
     } catch (error) {
-      console.error("Error updating player position:", error);
+      console.error("Error listing rooms:", error);
       throw error;
     }
   }
   
-  async fireProjectile(projectileData) {
+  #unlistPlayer(account) {
+    this.roomListings.forEach(listing => listing.players.delete(account));
+  }
+  
+  #setListedRating(account, rating) {
+    this.roomListings.forEach(listing => {
+      if (listing.players.has(account)) listing.players.set(account, rating);
+    });
+  }
+  
+  // Players who disconnect never call leaveRoom, so their per-player bookkeeping is dropped
+  // once they are seen missing from the room, unless they have already joined another one
+  #forgetPlayer(roomId, listing, account) {
+    listing.players.delete(account);
+    if (this.playerRooms.has(account) && this.playerRooms.get(account) !== roomId) return;
+    this.playerRooms.delete(account);
+    this.positionHistory.delete(account);
+    this.inputClocks.delete(account);
+    this.matchStats.delete(account);
+  }
+  
+  // Page through a leaderboard; the caller's own row comes along even outside the page
+  async getLeaderboard(query) {
     try {
-      // Broadcast projectile fired event to all players in the room
-      await $room.broadcastToRoom("projectileFired", projectileData);
-      return "success";
+      const { window, metric } = query;
+      const page = query.page || 0;
+      const pageSize = query.pageSize || 10;
+      const collectionId = this.#getLeaderboardCollections(Date.now())[window];
+      const rows = await this.#getSortedLeaderboard(collectionId, metric);
+      
+      const ownIndex = rows.findIndex(row => row.account === $sender.account);
+      return {
+        window,
+        metric,
+        page,
+        pageSize,
+        total: rows.length,
+        entries: rows.slice(page * pageSize, (page + 1) * pageSize),
+        own: ownIndex >= 0 ? rows[ownIndex] : null
+      };
     } catch (error) {
-      console.error("Error firing projectile:", error);
+      console.error("Error getting leaderboard:", error);
       throw error;
     }
   }
   
-  async playerHit(data) {
-    try {
-      const { targetId, attackerId, damage } = data;
-      
-      // Get target player state
-      const targetState = await $room.getUserState(targetId);
-      if (!targetState) return "player not found";
+  // Collection ids of the buckets a moment falls into
+  #getLeaderboardCollections(time) {
+    const date = new Date(time);
+    const day = date.toISOString().slice(0, 10);
+    const monday = new Date(time - ((date.getUTCDay() + 6) % 7) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    return {
+      daily: `leaderboard-daily-${day}`,
+      weekly: `leaderboard-weekly-${monday}`,
+      allTime: "leaderboard-allTime"
+    };
+  }
+  
+  // Rows of one bucket ranked by a metric, ties broken by kills and then name
+  async #getSortedLeaderboard(collectionId, metric) {
+    const cacheKey = `${collectionId}:${metric}`;
+    const cached = this.leaderboardCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) return cached.rows;
+    
+    const items = (await $global.getCollectionItems(collectionId)) || [];
+    const rows = items
+      .filter(item => metric !== "kd" || item.matches >= this.LEADERBOARD_MIN_MATCHES_FOR_KD)
+      .map(item => ({
+        account: item.account,
+        name: item.name,
+        kills: item.kills,
+        deaths: item.deaths,
+        wins: item.wins,
+        matches: item.matches,
+        value: this.#getLeaderboardValue(item, metric)
+      }))
+      .sort((a, b) => b.value - a.value || b.kills - a.kills || String(a.name).localeCompare(String(b.name)))
+      .map((row, index) => ({ rank: index + 1, ...row }));
+    
+    // Drop stale boards (old days and weeks are never asked for again)
+    const now = Date.now();
+    this.leaderboardCache.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.leaderboardCache.delete(key);
+    });
+    this.leaderboardCache.set(cacheKey, { rows, expiresAt: now + this.LEADERBOARD_CACHE_TTL });
+    return rows;
+  }
+  
+  #getLeaderboardValue(row, metric) {
+    if (metric === "kd") {
+      return Math.round(row.kills / Math.max(1, row.deaths) * 100) / 100;
+    }
+    return row[metric] || 0;
+  }
+  
+  // Add a finished match to every window's bucket
+  async #recordLeaderboards(rows, time) {
+    for (const collectionId of Object.values(this.#getLeaderboardCollections(time))) {
+      const items = (await $global.getCollectionItems(collectionId)) || [];
+      for (const row of rows) {
+        const item = items.find(existing => existing.account === row.account);
+        const totals = {
+          account: row.account,
+          name: row.name,
+          kills: (item ? item.kills : 0) + row.kills,
+          deaths: (item ? item.deaths : 0) + row.deaths,
+          wins: (item ? item.wins : 0) + (row.won ? 1 : 0),
+          matches: (item ? item.matches : 0) + 1
+        };
+        if (item) {
+          await $global.updateCollectionItem(collectionId, { __id: item.__id, ...totals });
+        } else {
+          await $global.addCollectionItem(collectionId, totals);
+        }
+      }
       
-      // Update health
-      const newHealth = Math.max(0, (targetState.health || 100) - damage);
-      await $room.updateUserState(targetId, { health: newHealth });
+      // Fresh results should show up right away
+      this.LEADERBOARD_METRICS.forEach(metric => this.leaderboardCache.delete(`${collectionId}:${metric}`));
+    }
+  }
+  
+  #getMatchStats(account) {
+    if (!this.matchStats.has(account)) {
+      this.matchStats.set(account, { kills: 0, deaths: 0, damageDealt: 0 });
+    }
+    return this.matchStats.get(account);
+  }
+  
+  // Add the round's stats to the account's persistent profile; a finished match ({ won })
+  // also counts as played, earns XP and applies its rating change. Returns the XP gained, the
+  // resulting level and the new rating
+  async #saveProgress(account, name, match) {
+    const stats = this.#getMatchStats(account);
+    this.matchStats.delete(account);
+    
+    const globalState = (await $global.getUserState(account)) || {};
+    const profile = { ...this.#createProfile(), ...globalState.profile };
+    const previousLevel = this.#getLevel(profile.xp);
+    
+    let xp = 0;
+    if (match) {
+      xp = this.XP_PER_MATCH +
+        stats.kills * this.XP_PER_KILL +
+        Math.floor(stats.damageDealt * this.XP_PER_DAMAGE) +
+        (match.won ? this.XP_PER_WIN : 0);
+      profile.matchesPlayed++;
+      if (match.won) profile.wins++;
+      profile.rating += match.ratingChange;
+      this.#setListedRating(account, profile.rating);
+    }
+    profile.kills += stats.kills;
+    profile.deaths += stats.deaths;
+    profile.damageDealt += stats.damageDealt;
+    profile.xp += xp;
+    if (name) profile.name = name;
+    
+    await $global.updateUserState(account, { profile });
+    
+    const level = this.#getLevel(profile.xp);
+    return {
+      xp,
+      level,
+      leveledUp: level > previousLevel,
+      rating: profile.rating,
+      ratingChange: match ? match.ratingChange : 0
+    };
+  }
+  
+  #createProfile() {
+    return {
+      name: null,
+      kills: 0,
+      deaths: 0,
+      matchesPlayed: 0,
+      wins: 0,
+      damageDealt: 0,
+      xp: 0,
+      rating: this.INITIAL_RATING
+    };
+  }
+  
+  async #getRating(account) {
+    const globalState = (await $global.getUserState(account)) || {};
+    const rating = globalState.profile && globalState.profile.rating;
+    return typeof rating === "number" ? rating : this.INITIAL_RATING;
+  }
+  
+  // Elo change per account, treating the match as a duel against every opponent (teammates
+  // are skipped): a higher score wins the duel, equal scores draw. Averaging over the
+  // opponents keeps a change within the K factor whatever the room size
+  #getRatingChanges(players, teamMode) {
+    const changes = {};
+    for (const player of players) {
+      const opponents = players.filter(other =>
+        other.account !== player.account && !(teamMode && other.team === player.team)
+      );
+      if (opponents.length === 0) continue;
       
-      return "success";
-    } catch (error) {
-      console.error("Error handling player hit:", error);
-      throw error;
+      const surplus = opponents.reduce((sum, other) => {
+        const expected = 1 / (1 + Math.pow(10, (other.rating - player.rating) / 400));
+        const actual = player.score > other.score ? 1 : player.score === other.score ? 0.5 : 0;
+        return sum + actual - expected;
+      }, 0);
+      changes[player.account] = Math.round(this.RATING_K_FACTOR * surplus / opponents.length);
+    }
+    return changes;
+  }
+  
+  // Level for a total amount of XP; must stay identical to getLevel in ProgressionConfig.ts
+  #getLevel(xp) {
+    let level = 1;
+    let needed = this.LEVEL_BASE_XP;
+    let remaining = xp;
+    while (remaining >= needed) {
+      remaining -= needed;
+      level++;
+      needed += this.LEVEL_BASE_XP;
     }
+    return level;
+  }
+  
+  // Players can fight while warming up and during a round, but not during countdown or results
+  #isCombatAllowed(roomState) {
+    const phase = (roomState && roomState.phase) || "waiting";
+    return phase === "waiting" || phase === "playing";
+  }
+  
+  // Separating axis test between a center-based rectangle turned by `angle` degrees (its
+  // width runs along the angle) and an axis-aligned one
+  #rotatedRectangleOverlaps(rotated, rect) {
+    const u = this.#getFacingVector(rotated.angle);
+    const axes = [{ x: 1, y: 0 }, { x: 0, y: 1 }, u, { x: -u.y, y: u.x }];
+    return axes.every(axis => {
+      const rotatedExtent = Math.abs(u.x * axis.x + u.y * axis.y) * rotated.width / 2 +
+        Math.abs(-u.y * axis.x + u.x * axis.y) * rotated.height / 2;
+      const rectExtent = Math.abs(axis.x) * rect.width / 2 + Math.abs(axis.y) * rect.height / 2;
+      const distance = Math.abs((rect.x - rotated.x) * axis.x + (rect.y - rotated.y) * axis.y);
+      return distance < rotatedExtent + rectExtent;
+    });
   }
   
-  async playerDied(data) {
+  async #playerDied(roomId, data) {
     try {
       const { playerId, killerId } = data;
       
-      // Reset player health
-      await $room.updateUserState(playerId, { health: 100 });
+      // A carried flag drops where its carrier died
+      await this.#dropFlagsCarriedBy(roomId, playerId);
+      
+      // Put the player into the dead state until the room tick respawns them
+      await this.#updateUserState(roomId, playerId, {
+        dead: true,
+        health: 0,
+        effects: {},
+        blocking: false,
+        killerId: killerId || null,
+        respawnAt: Date.now() + this.RESPAWN_DELAY
+      });
       
       // Increment killer's score
+      this.#getMatchStats(playerId).deaths++;
+      let killerName = null;
       if (killerId && killerId !== playerId) {
+        this.#getMatchStats(killerId).kills++;
         const killerState = await $room.getUserState(killerId);
         if (killerState) {
           const newScore = (killerState.score || 0) + 1;
-          await $room.updateUserState(killerId, { score: newScore });
+          await this.#updateUserState(roomId, killerId, { score: newScore });
+          killerName = killerState.name || killerId;
         }
       }
       
+      await this.#broadcast(roomId, "playerKilled", {
+        playerId,
+        killerId,
+        killerName,
+        respawnDelay: this.RESPAWN_DELAY
+      });
+      
       return "success";
     } catch (error) {
       console.error("Error handling player death:", error);
@@ -155,53 +2677,603 @@ class Server {
     }
   }
   
-  async spawnPowerup(roomId) {
-    try {
-      // Get current room state
-      const roomState = await $room.getRoomState();
+  // Refill pads whose timers ran out, run the room-wide spawn timer and expire
+  // unclaimed powerups, keeping the room under MAX_POWERUPS
+  async #updatePowerupSpawns(roomId, roomState) {
+    const now = Date.now();
+    const current = roomState.powerups || [];
+    const powerups = current.filter(p => p.padId || now - p.createdAt < this.POWERUP_LIFETIME);
+    const rate = this.#getPowerupSpawnRate((await this.#getPlayerStates()).length);
+    const spawned = [];
+    const changes = {};
+    const createPowerup = (position, table, padId) => ({
+      id: `powerup_${now}_${spawned.length}`,
+      x: position.x,
+      y: position.y,
+      type: this.#pickPowerupType(table),
+      createdAt: now,
+      padId: padId || null
+    });
+    
+    const padRespawnAt = roomState.padRespawnAt || {};
+    for (const pad of (roomState.map && roomState.map.powerupPads) || []) {
+      if (powerups.length + spawned.length >= this.MAX_POWERUPS) break;
+      if (now < (padRespawnAt[pad.id] || 0) || powerups.some(p => p.padId === pad.id)) continue;
+      spawned.push(createPowerup(pad, pad.table, pad.id));
+    }
+    
+    if (now - (roomState.lastPowerupSpawn || 0) >= this.POWERUP_SPAWN_INTERVAL / rate) {
+      changes.lastPowerupSpawn = now;
+      if (powerups.length + spawned.length < this.MAX_POWERUPS) {
+        const position = this.#findPowerupPosition(roomState, [...powerups, ...spawned]);
+        if (position) spawned.push(createPowerup(position, position.table));
+      }
+    }
+    
+    if (spawned.length === 0 && powerups.length === current.length && !changes.lastPowerupSpawn) return;
+    
+    // Keep the tick's snapshot in step with what is written
+    roomState.powerups = [...powerups, ...spawned];
+    await this.#updateRoomState(roomId, { ...changes, powerups: roomState.powerups });
+    for (const powerup of spawned) {
+      await this.#broadcast(roomId, "powerupSpawned", powerup);
+    }
+  }
+  
+  // Spawn rate multiplier: busier rooms get more powerups, within bounds
+  #getPowerupSpawnRate(playerCount) {
+    return Math.min(this.MAX_POWERUP_RATE, Math.max(this.MIN_POWERUP_RATE, playerCount / this.POWERUP_REFERENCE_PLAYERS));
+  }
+  
+  // Weighted draw from a spawn table
+  #pickPowerupType(tableId) {
+    const table = this.POWERUP_SPAWN_TABLES[tableId] || this.POWERUP_SPAWN_TABLES.default;
+    const entries = Object.entries(table).filter(([type, weight]) => this.POWERUPS[type] && weight > 0);
+    let roll = Math.random() * entries.reduce((total, [, weight]) => total + weight, 0);
+    for (const [type, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) return type;
+    }
+    return entries[entries.length - 1][0];
+  }
+  
+  // A spot clear of walls and other powerups, inside a powerup zone when the map has
+  // them; carries the zone's spawn table. Null when no candidate fits
+  #findPowerupPosition(roomState, powerups) {
+    const zones = (roomState.map && roomState.map.powerupZones) || [];
+    for (let i = 0; i < this.SPAWN_ATTEMPTS; i++) {
+      let candidate;
+      if (zones.length > 0) {
+        const zone = zones[Math.floor(Math.random() * zones.length)];
+        const angle = Math.random() * Math.PI * 2;
+        const distance = Math.random() * zone.radius;
+        candidate = this.#clampToMap(roomState.map, {
+          x: Math.floor(zone.x + Math.cos(angle) * distance),
+          y: Math.floor(zone.y + Math.sin(angle) * distance)
+        });
+        candidate.table = zone.table;
+      } else {
+        candidate = this.#randomPointInMap(roomState.map);
+      }
       
-      // Generate powerup data
-      const powerupId = `powerup_${Date.now()}`;
-      const powerupType = this.POWERUP_TYPES[Math.floor(Math.random() * this.POWERUP_TYPES.length)];
-      const powerupData = {
-        id: powerupId,
-        x: Math.floor(Math.random() * 1800) + 100,
-        y: Math.floor(Math.random() * 1800) + 100,
-        type: powerupType,
-        createdAt: Date.now()
-      };
+      if (this.#isNearObstacle(roomState.obstacles, candidate.x, candidate.y, this.SPAWN_OBSTACLE_CLEARANCE)) continue;
+      if (powerups.some(p => Math.hypot(p.x - candidate.x, p.y - candidate.y) < this.POWERUP_SPACING)) continue;
+      return candidate;
+    }
+    return null;
+  }
+  
+  // Pickups are detected here from server positions, so clients cannot fake them. When
+  // several players touch the same orb in one tick, the closest one gets it
+  async #collectPowerups(roomId, roomState) {
+    const powerups = roomState.powerups || [];
+    const userStates = await this.#getPlayerStates();
+    const players = userStates.filter(p => !p.dead && p.x !== undefined);
+    const now = Date.now();
+    const collected = [];
+    
+    for (const powerup of powerups) {
+      let winner = null;
+      let winnerDistance = Infinity;
+      for (const player of players) {
+        const distance = Math.hypot(powerup.x - player.x, powerup.y - player.y);
+        if (distance > this.POWERUP_PICKUP_RADIUS) continue;
+        if (distance < winnerDistance || (distance === winnerDistance && player.account < winner.account)) {
+          winner = player;
+          winnerDistance = distance;
+        }
+      }
+      if (!winner) continue;
       
-      // Add powerup to room state
-      const powerups = [...(roomState.powerups || []), powerupData];
-      await $room.updateRoomState({
-        powerups,
-        lastPowerupSpawn: Date.now()
+      // Apply to the local copy too, so a second orb in the same tick stacks correctly
+      const effect = this.#getPowerupEffect(winner, powerup.type, now);
+      Object.assign(winner, effect);
+      collected.push({ powerup, playerId: winner.account, effect });
+    }
+    if (collected.length === 0) return;
+    
+    // Emptied pads refill after their own delay
+    const rate = this.#getPowerupSpawnRate(userStates.length);
+    const pads = (roomState.map && roomState.map.powerupPads) || [];
+    const padRespawnAt = { ...(roomState.padRespawnAt || {}) };
+    collected.forEach(({ powerup }) => {
+      const pad = pads.find(p => p.id === powerup.padId);
+      if (pad) padRespawnAt[pad.id] = now + (pad.respawnDelay || this.PAD_RESPAWN_DELAY) / rate;
+    });
+    
+    // Keep the tick's snapshot in step so later phases don't write the orbs back
+    const collectedIds = new Set(collected.map(c => c.powerup.id));
+    roomState.powerups = powerups.filter(p => !collectedIds.has(p.id));
+    roomState.padRespawnAt = padRespawnAt;
+    await this.#updateRoomState(roomId, { powerups: roomState.powerups, padRespawnAt });
+    
+    for (const { powerup, playerId, effect } of collected) {
+      await this.#updateUserState(roomId, playerId, effect);
+      await this.#broadcast(roomId, "powerupCollected", {
+        id: powerup.id,
+        type: powerup.type,
+        playerId,
+        ...effect
       });
+    }
+  }
+  
+  // User state changes a powerup makes to the player who picked it up
+  #getPowerupEffect(playerState, type, now) {
+    const powerup = this.POWERUPS[type];
+    if (!powerup) return {};
+    
+    const changes = {};
+    if (powerup.effects.heal) {
+      const maxHealth = this.#getCharacterClass(playerState).maxHealth;
+      changes.health = Math.min(maxHealth, (playerState.health ?? maxHealth) + powerup.effects.heal);
+    }
+    if (powerup.stacking === "instant") return changes;
+    
+    // Rewrite the active set, dropping expired effects on the way
+    const effects = Object.fromEntries(this.#getActiveEffects(playerState, now));
+    const current = effects[type];
+    const until = powerup.stacking === "extend" && current ?
+      Math.min(now + (powerup.maxDuration || powerup.duration), current.until + powerup.duration) :
+      now + powerup.duration;
+    effects[type] = powerup.effects.shield ? { until, shield: powerup.effects.shield } : { until };
+    changes.effects = effects;
+    return changes;
+  }
+  
+  // A player's unexpired effects as [type, { until, ... }] pairs
+  #getActiveEffects(playerState, now) {
+    return Object.entries(playerState.effects || {})
+      .filter(([type, effect]) => this.POWERUPS[type] && effect && effect.until > now);
+  }
+  
+  // Product of a multiplier field over a player's active effects (1 without any)
+  #getEffectModifier(playerState, field, now) {
+    return this.#getActiveEffects(playerState, now)
+      .reduce((value, [type]) => value * (this.POWERUPS[type].effects[field] ?? 1), 1);
+  }
+  
+  async #regenerateResources(roomId) {
+    const now = Date.now();
+    const lastRegen = this.energyRegenAt.get(roomId);
+    if (lastRegen === undefined) {
+      this.energyRegenAt.set(roomId, now);
+      return;
+    }
+    if (now - lastRegen < this.ENERGY_REGEN_INTERVAL) return;
+    this.energyRegenAt.set(roomId, now);
+    
+    const userStates = await this.#getPlayerStates();
+    const regen = this.ENERGY_REGEN_PER_SECOND * (now - lastRegen) / 1000;
+    
+    const staminaRegen = this.STAMINA_REGEN_PER_SECOND * (now - lastRegen) / 1000;
+    
+    for (const userState of userStates) {
+      const changes = {};
+      const energy = userState.energy ?? this.MAX_ENERGY;
+      if (energy < this.MAX_ENERGY) {
+        changes.energy = Math.min(this.MAX_ENERGY, this.#quantize(energy + regen));
+      }
       
-      // Broadcast powerup spawned event
-      await $room.broadcastToRoom("powerupSpawned", powerupData);
+      // Stamina only refills while the guard is down and a moment after it was last spent
+      const stamina = userState.stamina ?? this.MAX_STAMINA;
+      if (stamina < this.MAX_STAMINA && !userState.blocking &&
+        now - (userState.staminaUsedAt || 0) >= this.STAMINA_REGEN_DELAY) {
+        changes.stamina = Math.min(this.MAX_STAMINA, this.#quantize(stamina + staminaRegen));
+      }
       
-      return "success";
-    } catch (error) {
-      console.error("Error spawning powerup:", error);
-      throw error;
+      if (Object.keys(changes).length > 0) {
+        await this.#updateUserState(roomId, userState.account, changes);
+      }
     }
   }
   
-  async collectPowerup(powerupId) {
-    try {
-      // Get current room state
-      const roomState = await $room.getRoomState();
+  // Bring dead players back once their respawn delay has passed
+  async #respawnDeadPlayers(roomId, roomState) {
+    const userStates = await this.#getPlayerStates();
+    const now = Date.now();
+    
+    for (const userState of userStates) {
+      if (!userState.dead || now < (userState.respawnAt || 0)) continue;
+      
+      const spawn = this.#pickSpawnPoint(roomState, userStates, userState.account, userState.team);
+      await this.#updateUserState(roomId, userState.account, {
+        x: spawn.x,
+        y: spawn.y,
+        life: (userState.life || 0) + 1,
+        anim: "idle",
+        dead: false,
+        health: this.#getCharacterClass(userState).maxHealth,
+        energy: this.MAX_ENERGY,
+        stamina: this.MAX_STAMINA,
+        blocking: false,
+        killerId: null,
+        respawnAt: null
+      });
+      this.#recordPosition(userState.account, spawn.x, spawn.y, now, true);
+    }
+  }
+  
+  async #updateMatchPhase(roomId, roomState) {
+    const userStates = await this.#getPlayerStates();
+    const now = Date.now();
+    const phase = roomState.phase || "waiting";
+    const enoughPlayers = userStates.length >= this.MIN_PLAYERS_TO_START;
+    const phaseOver = roomState.phaseEndsAt && now >= roomState.phaseEndsAt;
+    
+    switch (phase) {
+      case "waiting":
+        if (enoughPlayers) {
+          await this.#setMatchPhase(roomId, "countdown", this.COUNTDOWN_DURATION);
+        }
+        break;
+        
+      case "countdown":
+        if (!enoughPlayers) {
+          await this.#setMatchPhase(roomId, "waiting", null);
+        } else if (phaseOver) {
+          await this.#resetPlayersForRound(roomId, roomState, userStates);
+          await this.#setMatchPhase(roomId, "playing", this.#getRoomRules(roomState).roundDuration);
+        }
+        break;
+        
+      case "playing": {
+        // Team modes race the team score, free-for-all races the best player
+        const scores = this.#isTeamMode(roomState.mode) ?
+          Object.values(this.#getTeamScores(roomState, userStates)) :
+          userStates.map(u => u.score || 0);
+        const topScore = scores.reduce((max, score) => Math.max(max, score), 0);
+        const scoreTarget = this.#getRoomRules(roomState).scoreTarget;
+        
+        if (topScore >= scoreTarget) {
+          await this.#endRound(roomId, roomState, userStates, "scoreTarget");
+        } else if (!enoughPlayers) {
+          await this.#endRound(roomId, roomState, userStates, "notEnoughPlayers");
+        } else if (phaseOver) {
+          await this.#endRound(roomId, roomState, userStates, "timeUp");
+        }
+        break;
+      }
+        
+      case "results":
+        if (phaseOver) {
+          await this.#resetPlayersForRound(roomId, roomState, userStates);
+          await this.#setMatchPhase(roomId, enoughPlayers ? "countdown" : "waiting", enoughPlayers ? this.COUNTDOWN_DURATION : null);
+        }
+        break;
+    }
+    
+    // Publish the remaining time in whole seconds so the room state only changes once per second
+    const latestState = await $room.getRoomState();
+    const phaseTimeLeft = latestState.phaseEndsAt ?
+      Math.max(0, Math.ceil((latestState.phaseEndsAt - now) / 1000)) :
+      null;
+    if (phaseTimeLeft !== latestState.phaseTimeLeft) {
+      await this.#updateRoomState(roomId, { phaseTimeLeft });
+    }
+  }
+  
+  async #setMatchPhase(roomId, phase, duration) {
+    const update = {
+      phase,
+      phaseEndsAt: duration ? Date.now() + duration : null
+    };
+    if (phase !== "results") {
+      update.matchResults = null;
+    }
+    
+    await this.#updateRoomState(roomId, update);
+    await this.#broadcast(roomId, "matchPhaseChanged", { phase, duration });
+  }
+  
+  async #endRound(roomId, roomState, userStates, reason) {
+    // Rank players by score, the same ordering as the client scoreboard
+    const ranking = [...userStates]
+      .sort((a, b) => (b.score || 0) - (a.score || 0))
+      .map(u => ({ account: u.account, name: u.name || u.account, team: u.team || null, score: u.score || 0 }));
+    
+    // In team modes the team with the higher combined score wins (null on a draw)
+    let teamScores = null;
+    let winnerTeam = null;
+    if (this.#isTeamMode(roomState.mode)) {
+      teamScores = this.#getTeamScores(roomState, userStates);
+      const [first, second] = Object.entries(teamScores).sort((a, b) => b[1] - a[1]);
+      winnerTeam = first[1] > second[1] ? first[0] : null;
+    }
+    
+    // Ratings move by how each player placed against everyone they played against
+    const ratingPlayers = [];
+    for (const userState of userStates) {
+      ratingPlayers.push({
+        account: userState.account,
+        rating: await this.#getRating(userState.account),
+        team: userState.team || null,
+        score: teamScores && userState.team ? teamScores[userState.team] : userState.score || 0
+      });
+    }
+    const ratingChanges = this.#getRatingChanges(ratingPlayers, this.#isTeamMode(roomState.mode));
+    
+    // Everyone who finished the round earns XP and gets the match added to their profile
+    const winnerId = ranking.length > 0 ? ranking[0].account : null;
+    const progression = {};
+    const leaderboardRows = [];
+    for (const userState of userStates) {
+      const won = this.#isTeamMode(roomState.mode) ?
+        !!winnerTeam && userState.team === winnerTeam :
+        userState.account === winnerId;
+      const { kills, deaths } = this.#getMatchStats(userState.account);
+      leaderboardRows.push({ account: userState.account, name: userState.name || userState.account, kills, deaths, won });
+      const ratingChange = ratingChanges[userState.account] || 0;
+      progression[userState.account] = await this.#saveProgress(userState.account, userState.name, { won, ratingChange });
+    }
+    await this.#recordLeaderboards(leaderboardRows, Date.now());
+    
+    await this.#updateRoomState(roomId, {
+      matchResults: {
+        ranking,
+        winnerId,
+        teamScores,
+        winnerTeam,
+        reason,
+        progression
+      }
+    });
+    await this.#setMatchPhase(roomId, "results", this.RESULTS_DURATION);
+  }
+  
+  // Reset scores, health and objectives and put everyone on a fresh spawn point
+  async #resetPlayersForRound(roomId, roomState, userStates) {
+    await this.#updateRoomState(roomId, this.#createObjectives(roomState.mode, roomState.map));
+    
+    for (const userState of userStates) {
+      this.matchStats.delete(userState.account); // Warm-up fights don't count
+      const spawn = this.#pickSpawnPoint(roomState, userStates, userState.account, userState.team);
+      await this.#updateUserState(roomId, userState.account, {
+        x: spawn.x,
+        y: spawn.y,
+        life: (userState.life || 0) + 1,
+        anim: "idle",
+        dead: false,
+        health: this.#getCharacterClass(userState).maxHealth,
+        energy: this.MAX_ENERGY,
+        stamina: this.MAX_STAMINA,
+        blocking: false,
+        abilityReadyAt: 0,
+        effects: {},
+        score: 0,
+        killerId: null,
+        respawnAt: null
+      });
+      this.#recordPosition(userState.account, spawn.x, spawn.y, Date.now(), true);
+    }
+  }
+  
+  // Flag pickups, returns and captures, driven by stored player positions
+  async #updateFlags(roomId, roomState) {
+    if (!roomState.flags || roomState.phase !== "playing") return;
+    
+    const userStates = await this.#getPlayerStates();
+    const players = userStates.filter(u => !u.dead && u.x !== undefined);
+    const flags = { ...roomState.flags };
+    const captures = { ...(roomState.captures || {}) };
+    const now = Date.now();
+    let changed = false;
+    
+    for (const team of this.TEAMS) {
+      let flag = { ...flags[team] };
       
-      // Remove powerup from room state
-      const powerups = (roomState.powerups || []).filter(p => p.id !== powerupId);
-      await $room.updateRoomState({ powerups });
+      if (flag.status === "carried") {
+        const carrier = players.find(u => u.account === flag.carrierId);
+        if (!carrier) {
+          // The carrier left without dropping it
+          flag = { ...flag, status: "dropped", carrierId: null, droppedAt: now };
+          changed = true;
+        } else {
+          // Clients draw a carried flag on its carrier, so its position is only stored when dropped
+          // Capture by bringing it to your own base while your flag is home
+          const ownBase = roomState.bases[carrier.team];
+          const ownFlag = flags[carrier.team];
+          if (ownFlag && ownFlag.status === "home" &&
+              Math.hypot(ownBase.x - carrier.x, ownBase.y - carrier.y) < this.FLAG_CAPTURE_RADIUS) {
+            captures[carrier.team] = (captures[carrier.team] || 0) + 1;
+            flag = this.#createHomeFlag(team, roomState.bases);
+            await this.#updateUserState(roomId, carrier.account, { captures: (carrier.captures || 0) + 1 });
+            await this.#broadcast(roomId, "flagCaptured", { team, carrierId: carrier.account, carrierTeam: carrier.team });
+            changed = true;
+          }
+        }
+      } else {
+        const touching = players.filter(u =>
+          Math.hypot(u.x - flag.x, u.y - flag.y) < this.FLAG_PICKUP_RADIUS
+        );
+        const enemy = touching.find(u => u.team && u.team !== team);
+        const defender = touching.find(u => u.team === team);
+        
+        if (flag.status === "dropped" && (defender || now - flag.droppedAt > this.FLAG_RETURN_DELAY)) {
+          // Touching your own dropped flag (or waiting long enough) sends it home
+          flag = this.#createHomeFlag(team, roomState.bases);
+          await this.#broadcast(roomId, "flagReturned", { team, playerId: defender ? defender.account : null });
+          changed = true;
+        } else if (enemy) {
+          flag = { ...flag, status: "carried", carrierId: enemy.account, droppedAt: null };
+          await this.#broadcast(roomId, "flagTaken", { team, carrierId: enemy.account });
+          changed = true;
+        }
+      }
       
-      return "success";
-    } catch (error) {
-      console.error("Error collecting powerup:", error);
-      throw error;
+      flags[team] = flag;
+    }
+    
+    if (changed) {
+      await this.#updateRoomState(roomId, { flags, captures });
+    }
+  }
+  
+  // Capture progress and hold scoring, driven by stored player positions
+  async #updateZones(roomId, roomState) {
+    if (!roomState.zones || roomState.phase !== "playing") return;
+    
+    const userStates = await this.#getPlayerStates();
+    const players = userStates.filter(u => !u.dead && u.x !== undefined);
+    let changed = false;
+    
+    const now = Date.now();
+    const zones = [];
+    for (const current of roomState.zones) {
+      const zone = { ...current };
+      const occupants = players.filter(u => Math.hypot(u.x - zone.x, u.y - zone.y) < zone.radius);
+      const contested = occupants.length > 1;
+      const holder = occupants.length === 1 ? occupants[0] : null;
+      
+      if (contested !== zone.contested) {
+        zone.contested = contested;
+        changed = true;
+      }
+      
+      // Pause a capture run when its capturer is no longer alone in the zone
+      if (zone.captureStartedAt !== null && (!holder || holder.account !== zone.capturer)) {
+        zone.captureBase = Math.min(1, zone.captureBase + (now - zone.captureStartedAt) / this.ZONE_CAPTURE_TIME);
+        zone.captureStartedAt = null;
+        changed = true;
+      }
+      
+      // Points only accrue while the owner holds the zone alone
+      if (zone.scoringSince !== null && (!holder || holder.account !== zone.owner)) {
+        zone.scoringSince = null;
+        changed = true;
+      }
+      
+      if (holder && holder.account === zone.owner) {
+        // Award points to the owner while they hold it alone
+        if (zone.capturer !== null || zone.progress !== 1) {
+          zone.capturer = null;
+          zone.progress = 1;
+          changed = true;
+        }
+        if (zone.scoringSince === null) {
+          zone.scoringSince = now;
+          changed = true;
+        }
+        const seconds = Math.floor((now - zone.scoringSince) / 1000);
+        if (seconds > 0) {
+          const points = seconds * this.ZONE_POINTS_PER_SECOND;
+          zone.scoringSince += seconds * 1000;
+          await this.#updateUserState(roomId, holder.account, { score: (holder.score || 0) + points });
+          holder.score = (holder.score || 0) + points;
+          changed = true;
+        }
+      } else if (holder) {
+        // A lone challenger builds capture progress, starting over if someone else was capturing
+        if (zone.capturer !== holder.account) {
+          zone.capturer = holder.account;
+          zone.captureBase = 0;
+          zone.progress = 0;
+          changed = true;
+        }
+        if (zone.captureStartedAt === null) {
+          zone.captureStartedAt = now;
+          changed = true;
+        }
+        
+        const exact = zone.captureBase + (now - zone.captureStartedAt) / this.ZONE_CAPTURE_TIME;
+        if (exact >= 1) {
+          zone.owner = holder.account;
+          zone.capturer = null;
+          zone.progress = 1;
+          zone.captureBase = 0;
+          zone.captureStartedAt = null;
+          zone.scoringSince = now;
+          await this.#broadcast(roomId, "zoneCaptured", { zoneId: zone.id, owner: holder.account });
+          changed = true;
+        } else {
+          // Clients only see progress in coarse steps, so most ticks write nothing
+          const steps = Math.floor(exact / this.ZONE_PROGRESS_STEP);
+          const progress = Math.round(steps * this.ZONE_PROGRESS_STEP * 1000) / 1000;
+          if (progress !== zone.progress) {
+            zone.progress = progress;
+            changed = true;
+          }
+        }
+      }
+      
+      zones.push(zone);
+    }
+    
+    if (changed) {
+      await this.#updateRoomState(roomId, { zones });
+    }
+  }
+  
+  async #dropFlagsCarriedBy(roomId, playerId) {
+    const roomState = await $room.getRoomState();
+    if (!roomState.flags) return;
+    
+    const carrierState = await $room.getUserState(playerId);
+    const flags = { ...roomState.flags };
+    let dropped = false;
+    
+    for (const team of this.TEAMS) {
+      if (flags[team] && flags[team].carrierId === playerId) {
+        flags[team] = {
+          ...flags[team],
+          x: carrierState ? carrierState.x : flags[team].x,
+          y: carrierState ? carrierState.y : flags[team].y,
+          status: "dropped",
+          carrierId: null,
+          droppedAt: Date.now()
+        };
+        dropped = true;
+      }
+    }
+    
+    if (dropped) {
+      await this.#updateRoomState(roomId, { flags });
+    }
+  }
+  
+  // Refresh the room's listing from its state at most every ROOM_LISTING_INTERVAL, and hand
+  // the host role to another player when the host is gone
+  async #updateRoomListing(roomId, roomState) {
+    const listing = this.#getRoomListing(roomId, roomState);
+    const now = Date.now();
+    if (now - listing.updatedAt < this.ROOM_LISTING_INTERVAL && listing.playerCount > 0) return;
+    
+    const userStates = await this.#getPlayerStates();
+    let host = userStates.find(u => u.account === roomState.host);
+    if (!host && userStates.length > 0) {
+      host = userStates[0];
+      await this.#updateRoomState(roomId, { host: host.account });
     }
+    
+    listing.players.forEach((_, account) => {
+      if (!userStates.some(u => u.account === account)) this.#forgetPlayer(roomId, listing, account);
+    });
+    listing.phase = roomState.phase || "waiting";
+    listing.maxPlayers = this.#getRoomRules(roomState).maxPlayers;
+    listing.locked = !!roomState.locked;
+    listing.hostName = host ? host.name || host.account : null;
+    listing.playerCount = userStates.length;
+    listing.updatedAt = now;
   }
   
   // Room tick function - called periodically by the server
@@ -211,27 +3283,37 @@ class Server {
       const roomState = await $room.getRoomState();
       if (!roomState) return;
       
-      // Update game time
-      const gameTime = (roomState.gameTime || 0) + deltaMS;
-      await $room.updateRoomState({ gameTime });
+      // Advance the match state machine
+      await this.#updateMatchPhase(roomId, roomState);
+      
+      // Move flags and score captures
+      if (roomState.mode === "ctf") {
+        await this.#updateFlags(roomId, roomState);
+      }
       
-      // Check if we need to spawn a powerup
-      const lastPowerupSpawn = roomState.lastPowerupSpawn || 0;
-      if (Date.now() - lastPowerupSpawn > this.POWERUP_SPAWN_INTERVAL) {
-        await this.spawnPowerup(roomId);
+      // Capture zones and per-second scoring
+      if (roomState.mode === "koth") {
+        await this.#updateZones(roomId, roomState);
       }
       
-      // Clean up old powerups (older than 30 seconds)
+      // Hand out powerups players are touching
       if (roomState.powerups && roomState.powerups.length > 0) {
-        const currentTime = Date.now();
-        const powerups = roomState.powerups.filter(p => 
-          currentTime - p.createdAt < 30000
-        );
-        
-        if (powerups.length !== roomState.powerups.length) {
-          await $room.updateRoomState({ powerups });
-        }
+        await this.#collectPowerups(roomId, roomState);
+      }
+      
+      // Respawn dead players
+      await this.#respawnDeadPlayers(roomId, roomState);
+      
+      // Regenerate energy for ranged attacks and stamina
+      await this.#regenerateResources(roomId);
+      
+      // Spawn, refill and expire powerups, unless the host turned them off
+      if (this.#getRoomRules(roomState).powerups) {
+        await this.#updatePowerupSpawns(roomId, roomState);
       }
+      
+      // Keep the room browser current and hand the host role on if the host is gone
+      await this.#updateRoomListing(roomId, roomState);
     } catch (error) {
       console.error("Error in room tick:", error);
     }
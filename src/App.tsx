@@ -3,6 +3,7 @@ import { useGameServer } from "@agent8/gameserver";
 import GameComponent from "./components/GameComponent";
 import LobbyScreen from "./components/LobbyScreen";
 import LoadingScreen from "./components/LoadingScreen";
+import type { RoomOptions } from "./components/LobbyScreen";
 import "./App.css";
 
 function App() {
@@ -25,14 +26,14 @@ function App() {
     }
   }, [connected]);
 
-  const handleStartGame = async (name: string, room: string = "") => {
+  const handleStartGame = async (name: string, room: string = "", options: RoomOptions = {}) => {
     if (name.trim() !== "") {
       setPlayerName(name);
       localStorage.setItem("playerName", name);
       
       try {
         // Join or create a room
-        const joinedRoomId = await server.remoteFunction("joinRoom", [room]);
+        const joinedRoomId = await server.remoteFunction("joinRoom", [room, options]);
         setRoomId(joinedRoomId);
         
         // Set player data
@@ -56,6 +57,13 @@ function App() {
     }
   };
 
+  // The server has already taken us out of the room, so there is nothing to leave
+  const handleKicked = (reason: string) => {
+    alert(`You were removed from the match: ${reason}`);
+    setGameStarted(false);
+    setRoomId("");
+  };
+
   if (!connected) {
     return <LoadingScreen message="Connecting to server..." />;
   }
@@ -69,6 +77,7 @@ function App() {
           playerName={playerName} 
           roomId={roomId} 
           onExitGame={handleExitGame} 
+          onKicked={handleKicked}
         />
       )}
     </div>
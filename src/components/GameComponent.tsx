@@ -3,18 +3,23 @@ import { useGameServer, useRoomState, useRoomAllUserStates } from "@agent8/games
 import Phaser from "phaser";
 import { GameScene } from "../game/scenes/GameScene";
 import { UIScene } from "../game/scenes/UIScene";
+import type { PlayerState } from "../game/types/PlayerState";
 import GameUI from "./GameUI";
+import MatchOverlay from "./MatchOverlay";
 
 interface GameComponentProps {
   playerName: string;
   roomId: string;
   onExitGame: () => void;
+  onKicked: (reason: string) => void;
 }
 
-const GameComponent: React.FC<GameComponentProps> = ({ playerName, roomId, onExitGame }) => {
+const GameComponent: React.FC<GameComponentProps> = ({ playerName, roomId, onExitGame, onKicked }) => {
   const gameRef = useRef<HTMLDivElement>(null);
   const gameInstanceRef = useRef<Phaser.Game | null>(null);
   const gameSceneRef = useRef<GameScene | null>(null);
+  const onKickedRef = useRef(onKicked); // Latest callback, without re-initializing the scene
+  onKickedRef.current = onKicked;
   const { server } = useGameServer();
   const roomState = useRoomState();
   const allPlayers = useRoomAllUserStates();
@@ -80,7 +85,8 @@ const GameComponent: React.FC<GameComponentProps> = ({ playerName, roomId, onExi
           gameScene.setGameData({
             playerName,
             roomId,
-            server
+            server,
+            onKicked: (reason: string) => onKickedRef.current(reason)
           });
         } else {
           // If scene is not ready yet, try again
@@ -115,7 +121,7 @@ const GameComponent: React.FC<GameComponentProps> = ({ playerName, roomId, onExi
     
     try {
       if (gameSceneRef.current.scene.isActive()) {
-        gameSceneRef.current.updatePlayerStates(allPlayers);
+        gameSceneRef.current.updatePlayerStates(allPlayers.filter((player: PlayerState) => !player.kicked));
       }
     } catch (error) {
       console.error("Error updating player states:", error);
@@ -133,6 +139,7 @@ const GameComponent: React.FC<GameComponentProps> = ({ playerName, roomId, onExi
       <div className="flex-grow flex justify-center items-center">
         <div className="relative w-[800px] h-[600px] shadow-lg rounded-lg overflow-hidden">
           <div ref={gameRef} className="w-full h-full" />
+          <MatchOverlay />
         </div>
       </div>
     </div>
@@ -1,50 +1,122 @@
-import React from "react";
-import { useRoomState, useRoomAllUserStates } from "@agent8/gameserver";
+import React, { useState } from "react";
+import { useGameServer, useRoomState, useRoomAllUserStates } from "@agent8/gameserver";
+import { TeamStyles, isTeamMode } from "../game/config/GameModes";
+import type { RoomRules } from "../game/config/RoomRules";
+import type { PlayerState } from "../game/types/PlayerState";
+import HostPanel from "./HostPanel";
 
 interface GameUIProps {
   roomId: string;
   onExitGame: () => void;
 }
 
+// Format seconds as m:ss
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
 const GameUI: React.FC<GameUIProps> = ({ roomId, onExitGame }) => {
   const roomState = useRoomState();
-  const allPlayers = useRoomAllUserStates();
+  const allPlayers = ((useRoomAllUserStates() as PlayerState[]) || []).filter(player => !player.kicked);
+  const { server } = useGameServer();
+  const [showHostPanel, setShowHostPanel] = useState(false);
+  const isHost = !!roomState?.host && roomState.host === server.account;
   
   // Sort players by score
   const sortedPlayers = [...(allPlayers || [])].sort((a, b) => 
     (b.score || 0) - (a.score || 0)
   );
+  
+  // Team score in team modes: flag captures in capture the flag, combined kills otherwise
+  const teamMode = isTeamMode(roomState?.mode);
+  const captures: Record<string, number> | undefined = roomState?.captures;
+  const teamTotals = Object.keys(TeamStyles).map(team => ({
+    team,
+    score: captures ?
+      captures[team] || 0 :
+      sortedPlayers
+        .filter(player => player.team === team)
+        .reduce((total, player) => total + (player.score || 0), 0)
+  }));
+  
+  // Describe the current match phase
+  const phase = roomState?.phase || "waiting";
+  const timeLeft = roomState?.phaseTimeLeft ?? 0;
+  const settings: RoomRules | undefined = roomState?.rules;
+  let phaseLabel = "";
+  if (phase === "waiting") {
+    phaseLabel = `Waiting for players (${allPlayers?.length || 0}/${settings?.minPlayers ?? 2})`;
+  } else if (phase === "countdown") {
+    phaseLabel = `Starting in ${timeLeft}s`;
+  } else if (phase === "playing") {
+    phaseLabel = `Time: ${formatTime(timeLeft)} · First to ${settings?.scoreTarget ?? 0}`;
+  } else if (phase === "results") {
+    phaseLabel = "Round over";
+  }
 
   return (
     <div className="flex justify-between items-center w-full text-white">
       {/* Room info */}
       <div className="flex space-x-4">
         <div className="bg-gray-900 bg-opacity-75 p-2 rounded-md">
-          <p className="text-sm">Room: {roomId}</p>
+          <p className="text-sm">{roomState?.roomName ?? "Room"} · ID: {roomId}</p>
         </div>
-        <div className="bg-gray-900 bg-opacity-75 p-2 rounded-md">
-          <p className="text-sm">Players: {allPlayers?.length || 0}/8</p>
-        </div>
-        {roomState?.gameTime && (
+        {roomState?.map && (
           <div className="bg-gray-900 bg-opacity-75 p-2 rounded-md">
-            <p className="text-sm">Time: {Math.floor(roomState.gameTime / 1000)}s</p>
+            <p className="text-sm">
+              Map: {roomState.map.name}{roomState.mapSeed ? ` #${roomState.mapSeed}` : ""}
+            </p>
           </div>
         )}
+        <div className="bg-gray-900 bg-opacity-75 p-2 rounded-md">
+          <p className="text-sm">
+            Players: {allPlayers?.length || 0}/{settings?.maxPlayers ?? 8}{roomState?.locked ? " · Locked" : ""}
+          </p>
+        </div>
+        <div className="bg-gray-900 bg-opacity-75 p-2 rounded-md">
+          <p className="text-sm">{phaseLabel}</p>
+        </div>
       </div>
 
+      {/* Team totals */}
+      {teamMode && (
+        <div className="bg-gray-900 bg-opacity-75 p-2 rounded-md">
+          <h3 className="text-sm font-bold mb-1">Teams</h3>
+          <div className="flex gap-3 text-sm font-semibold">
+            {teamTotals.map(({ team, score }) => (
+              <span key={team} className={TeamStyles[team].textClass}>
+                {TeamStyles[team].label}: {score}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Scoreboard */}
       <div className="bg-gray-900 bg-opacity-75 p-2 rounded-md">
         <h3 className="text-sm font-bold mb-1">Scoreboard</h3>
         <div className="flex flex-wrap gap-2 max-w-md">
           {sortedPlayers.map((player, index) => (
             <div key={player.account} className="flex justify-between text-xs bg-gray-800 px-2 py-1 rounded">
-              <span>{index + 1}. {player.name || player.account}</span>
+              <span className={teamMode && TeamStyles[player.team] ? TeamStyles[player.team].textClass : ""}>
+                {index + 1}. {player.name || player.account}{player.account === roomState?.host ? " ★" : ""}
+              </span>
               <span className="ml-2">{player.score || 0}</span>
             </div>
           ))}
         </div>
       </div>
 
+      {/* Host controls */}
+      {isHost && (
+        <button
+          onClick={() => setShowHostPanel(!showHostPanel)}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-sm"
+        >
+          Host
+        </button>
+      )}
+      {isHost && showHostPanel && <HostPanel onClose={() => setShowHostPanel(false)} />}
+
       {/* Exit button */}
       <button
         onClick={onExitGame}
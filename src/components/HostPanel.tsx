@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import { useGameServer, useRoomAllUserStates, useRoomState } from "@agent8/gameserver";
+import { isTeamMode } from "../game/config/GameModes";
+import { RoomRuleLimits } from "../game/config/RoomRules";
+import type { RoomRules } from "../game/config/RoomRules";
+import type { MapListEntry } from "../game/config/MapConfig";
+import type { PlayerState } from "../game/types/PlayerState";
+
+interface HostPanelProps {
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-2 py-1 bg-gray-700 text-white text-sm rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// Room rules, lock and player management for the room's host; the server checks that
+// the caller really is the host
+const HostPanel: React.FC<HostPanelProps> = ({ onClose }) => {
+  const { server } = useGameServer();
+  const roomState = useRoomState();
+  const allPlayers = ((useRoomAllUserStates() as PlayerState[]) || []).filter(player => !player.kicked);
+  const [edits, setEdits] = useState<Partial<RoomRules>>({}); // Unapplied changes, shown over the room's current rules
+  const [maps, setMaps] = useState<MapListEntry[]>([]);
+  const [message, setMessage] = useState("");
+  const playing = roomState?.phase === "playing";
+  const rules: RoomRules | null = roomState?.rules ? { ...roomState.rules, ...edits } : null;
+
+  useEffect(() => {
+    server.remoteFunction("getMapList", [])
+      .then((list: MapListEntry[]) => setMaps(list))
+      .catch((error: unknown) => console.error("Error loading maps:", error));
+  }, [server]);
+
+  // Report the server's answer, or its error, under the controls
+  const run = (name: string, args: unknown[], success: string, onSuccess?: () => void) => {
+    server.remoteFunction(name, args)
+      .then((result: string) => {
+        setMessage(result === "success" ? success : result);
+        if (result === "success") onSuccess?.();
+      })
+      .catch((error: unknown) => {
+        console.error(`Error calling ${name}:`, error);
+        setMessage(error instanceof Error ? error.message : String(error));
+      });
+  };
+
+  if (!rules) return null;
+  const update = (changes: Partial<RoomRules>) => setEdits({ ...edits, ...changes });
+  const clamp = (value: number, limits: { min: number; max: number }) =>
+    Math.min(limits.max, Math.max(limits.min, Number.isFinite(value) ? value : limits.min));
+
+  const handleApply = () => {
+    run("setRoomRules", [{
+      maxPlayers: clamp(Math.round(rules.maxPlayers), RoomRuleLimits.maxPlayers),
+      roundDuration: clamp(Math.round(rules.roundDuration), RoomRuleLimits.roundDuration),
+      scoreTarget: clamp(Math.round(rules.scoreTarget), RoomRuleLimits.scoreTarget),
+      damageMultiplier: clamp(rules.damageMultiplier, RoomRuleLimits.damageMultiplier),
+      powerups: rules.powerups,
+      friendlyFire: rules.friendlyFire,
+      mapId: rules.mapId
+    }], "Rules updated", () => setEdits({}));
+  };
+
+  const otherPlayers = allPlayers.filter(player => player.account !== server.account);
+
+  return (
+    <div className="fixed right-4 top-20 z-30 w-80 bg-gray-800 p-4 rounded-lg shadow-lg text-white space-y-3">
+      <div className="flex items-baseline justify-between">
+        <h2 className="text-lg font-bold">Host controls</h2>
+        <button type="button" onClick={onClose} className="text-sm text-gray-400 hover:text-white">
+          Close
+        </button>
+      </div>
+      
+      <div className="grid grid-cols-2 gap-2 text-xs text-gray-300">
+        <label>
+          Max players
+          <input
+            type="number"
+            min={RoomRuleLimits.maxPlayers.min}
+            max={RoomRuleLimits.maxPlayers.max}
+            value={rules.maxPlayers}
+            onChange={(e) => update({ maxPlayers: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          Round minutes
+          <input
+            type="number"
+            min={RoomRuleLimits.roundDuration.min / 60000}
+            max={RoomRuleLimits.roundDuration.max / 60000}
+            value={rules.roundDuration / 60000}
+            onChange={(e) => update({ roundDuration: Number(e.target.value) * 60000 })}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          Score limit
+          <input
+            type="number"
+            min={RoomRuleLimits.scoreTarget.min}
+            max={RoomRuleLimits.scoreTarget.max}
+            value={rules.scoreTarget}
+            onChange={(e) => update({ scoreTarget: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          Damage ×
+          <input
+            type="number"
+            step={0.25}
+            min={RoomRuleLimits.damageMultiplier.min}
+            max={RoomRuleLimits.damageMultiplier.max}
+            value={rules.damageMultiplier}
+            onChange={(e) => update({ damageMultiplier: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="col-span-2">
+          Map
+          <select value={rules.mapId} onChange={(e) => update({ mapId: e.target.value })} className={inputClass}>
+            {maps.filter(map => map.modes.includes(roomState?.mode)).map(map => (
+              <option key={map.id} value={map.id}>
+                {map.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={rules.powerups} onChange={() => update({ powerups: !rules.powerups })} />
+          Powerups
+        </label>
+        {isTeamMode(roomState?.mode) && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={rules.friendlyFire} onChange={() => update({ friendlyFire: !rules.friendlyFire })} />
+            Friendly fire
+          </label>
+        )}
+      </div>
+      
+      <div className="flex gap-2">
+        <button
+          type="button"
+          disabled={playing}
+          onClick={handleApply}
+          className="flex-1 py-1 bg-blue-600 hover:bg-blue-700 text-sm font-semibold rounded-md disabled:opacity-40"
+        >
+          Apply rules
+        </button>
+        <button
+          type="button"
+          onClick={() => run("setRoomLocked", [{ locked: !roomState?.locked }], roomState?.locked ? "Room unlocked" : "Room locked")}
+          className="flex-1 py-1 bg-gray-600 hover:bg-gray-500 text-sm font-semibold rounded-md"
+        >
+          {roomState?.locked ? "Unlock room" : "Lock room"}
+        </button>
+      </div>
+      {playing && <p className="text-xs text-gray-400">Rules can be changed between rounds.</p>}
+      
+      <ul className="space-y-1 max-h-40 overflow-y-auto">
+        {otherPlayers.map(player => (
+          <li key={player.account} className="flex items-center justify-between gap-2 bg-gray-700 rounded px-2 py-1 text-sm">
+            <span className="truncate">{player.name || player.account}</span>
+            <span className="flex gap-1 shrink-0">
+              <button
+                type="button"
+                onClick={() => run("transferHost", [{ playerId: player.account }], "Host handed over")}
+                className="px-2 bg-gray-600 hover:bg-gray-500 text-xs rounded"
+              >
+                Make host
+              </button>
+              <button
+                type="button"
+                onClick={() => run("kickPlayer", [{ playerId: player.account }], "Player kicked")}
+                className="px-2 bg-red-600 hover:bg-red-700 text-xs rounded"
+              >
+                Kick
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+      
+      {message && <p className="text-xs text-yellow-400">{message}</p>}
+    </div>
+  );
+};
+
+export default HostPanel;
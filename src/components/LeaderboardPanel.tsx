@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from "react";
+import { useGameServer } from "@agent8/gameserver";
+import type { LeaderboardEntry, LeaderboardMetric, LeaderboardPage, LeaderboardWindow } from "../game/types/Leaderboard";
+
+interface LeaderboardPanelProps {
+  onClose: () => void;
+}
+
+const PageSize = 10;
+
+const Windows: { id: LeaderboardWindow; label: string }[] = [
+  { id: "daily", label: "Today" },
+  { id: "weekly", label: "This week" },
+  { id: "allTime", label: "All time" }
+];
+
+const Metrics: { id: LeaderboardMetric; label: string }[] = [
+  { id: "kills", label: "Kills" },
+  { id: "kd", label: "K/D" },
+  { id: "wins", label: "Wins" }
+];
+
+const tabClass = (active: boolean) =>
+  `flex-1 py-1 rounded-md text-sm font-semibold transition duration-200 ${
+    active ? "bg-blue-600 text-white" : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+  }`;
+
+// Global rankings from finished matches; our own row stays visible outside the page
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ onClose }) => {
+  const { connected, server } = useGameServer();
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("weekly");
+  const [metric, setMetric] = useState<LeaderboardMetric>("kills");
+  const [page, setPage] = useState(0);
+  const [board, setBoard] = useState<LeaderboardPage | null>(null);
+
+  useEffect(() => {
+    if (!connected) return;
+    server.remoteFunction("getLeaderboard", [{ window: timeWindow, metric, page, pageSize: PageSize }])
+      .then((result: LeaderboardPage) => setBoard(result))
+      .catch((error: unknown) => console.error("Error loading leaderboard:", error));
+  }, [connected, server, timeWindow, metric, page]);
+
+  const pageCount = board ? Math.max(1, Math.ceil(board.total / PageSize)) : 1;
+  const ownOnPage = !!board?.own && board.entries.some(entry => entry.account === board.own?.account);
+
+  const renderRow = (entry: LeaderboardEntry) => (
+    <li
+      key={entry.account}
+      className={`flex justify-between text-sm px-2 py-1 rounded ${
+        entry.account === server.account ? "bg-yellow-600" : "bg-gray-700"
+      }`}
+    >
+      <span>{entry.rank}. {entry.name}</span>
+      <span>{metric === "kd" ? entry.value.toFixed(2) : entry.value}</span>
+    </li>
+  );
+
+  return (
+    <div className="space-y-3 text-white">
+      <h2 className="text-2xl font-bold">Leaderboards</h2>
+      
+      <div className="flex gap-2">
+        {Windows.map(option => (
+          <button key={option.id} type="button" className={tabClass(option.id === timeWindow)} onClick={() => {
+            setTimeWindow(option.id);
+            setPage(0);
+          }}>
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        {Metrics.map(option => (
+          <button key={option.id} type="button" className={tabClass(option.id === metric)} onClick={() => {
+            setMetric(option.id);
+            setPage(0);
+          }}>
+            {option.label}
+          </button>
+        ))}
+      </div>
+      
+      {board && board.entries.length === 0 ? (
+        <p className="text-sm text-center text-gray-400 py-4">No finished matches yet</p>
+      ) : (
+        <ol className="space-y-1">
+          {board?.entries.map(renderRow)}
+          {board?.own && !ownOnPage && (
+            <>
+              <li className="text-center text-gray-500 text-xs">…</li>
+              {renderRow(board.own)}
+            </>
+          )}
+        </ol>
+      )}
+      
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          disabled={page === 0}
+          onClick={() => setPage(page - 1)}
+          className="px-3 py-1 bg-gray-700 rounded-md disabled:opacity-40"
+        >
+          Previous
+        </button>
+        <span className="text-gray-400">Page {page + 1} of {pageCount}</span>
+        <button
+          type="button"
+          disabled={page + 1 >= pageCount}
+          onClick={() => setPage(page + 1)}
+          className="px-3 py-1 bg-gray-700 rounded-md disabled:opacity-40"
+        >
+          Next
+        </button>
+      </div>
+      
+      {metric === "kd" && (
+        <p className="text-xs text-gray-400">K/D ranks players with at least 3 matches in the period.</p>
+      )}
+      
+      <button
+        type="button"
+        onClick={onClose}
+        className="w-full py-2 px-4 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-md transition duration-200"
+      >
+        Back
+      </button>
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
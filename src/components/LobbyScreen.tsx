@@ -1,7 +1,34 @@
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
+import { useGameServer } from "@agent8/gameserver";
+import { GameModes, GameModeId } from "../game/config/GameModes";
+import { CharacterClasses, getCharacterClass } from "../game/config/CharacterConfig";
+import type { CharacterClassId } from "../game/config/CharacterConfig";
+import type { MapListEntry } from "../game/config/MapConfig";
+import type { QueueStatus } from "../game/types/Matchmaking";
+import type { RoomVisibility } from "../game/types/RoomListing";
+import LeaderboardPanel from "./LeaderboardPanel";
+import ProfileView from "./ProfileView";
+import RoomBrowser from "./RoomBrowser";
+
+// Settings picked in the lobby; everything but the class and password only applies
+// when creating a game
+export interface RoomOptions {
+  mode?: GameModeId;
+  mapId?: string;
+  seed?: number;
+  characterClass?: CharacterClassId;
+  roomName?: string;
+  visibility?: RoomVisibility;
+  password?: string;
+}
+
+const MaxRoomNameLength = 30; // Server.MAX_ROOM_NAME_LENGTH
+const MaxPasswordLength = 32; // Server.MAX_PASSWORD_LENGTH
+
+const QueuePollInterval = 1000; // ms between quick play status checks
 
 interface LobbyScreenProps {
-  onStartGame: (name: string, roomId?: string) => void;
+  onStartGame: (name: string, roomId?: string, options?: RoomOptions) => void;
   initialName: string;
 }
 
@@ -9,12 +36,136 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({ onStartGame, initialName }) =
   const [playerName, setPlayerName] = useState(initialName);
   const [roomId, setRoomId] = useState("");
   const [joinRoom, setJoinRoom] = useState(false);
+  const [mode, setMode] = useState<GameModeId>("ffa");
+  const [seed, setSeed] = useState("");
+  const [maps, setMaps] = useState<MapListEntry[]>([]);
+  const [mapId, setMapId] = useState("random");
+  const [characterClass, setCharacterClass] = useState<CharacterClassId>(
+    () => getCharacterClass(localStorage.getItem("characterClass")).id
+  );
+  const [roomName, setRoomName] = useState("");
+  const [visibility, setVisibility] = useState<RoomVisibility>("public");
+  const [password, setPassword] = useState("");
+  const [panel, setPanel] = useState<"lobby" | "profile" | "leaderboard" | "rooms">("lobby");
+  const [queue, setQueue] = useState<QueueStatus | null>(null);
+  const { connected, server } = useGameServer();
+
+  // Fetch the server's map list once connected
+  useEffect(() => {
+    if (!connected) return;
+    server.remoteFunction("getMapList", [])
+      .then((list: MapListEntry[]) => setMaps(list))
+      .catch((error: unknown) => console.error("Error loading maps:", error));
+  }, [connected, server]);
+
+  // Only offer maps that support the selected mode
+  const availableMaps = maps.filter(map => map.modes.includes(mode));
+  const selectedMap = availableMaps.some(map => map.id === mapId) ? mapId : "random";
+
+  // A match joins the room the server picked, or creates one with the lobby's map
+  const handleQueueStatus = useCallback((status: QueueStatus) => {
+    if (status.status === "matched") {
+      setQueue(null);
+      onStartGame(playerName, status.roomId, { mode: status.mode, mapId: selectedMap, characterClass });
+    } else {
+      setQueue(status.status === "searching" ? status : null);
+    }
+  }, [onStartGame, playerName, selectedMap, characterClass]);
+
+  // Poll while searching; the server widens the rating range as we wait
+  useEffect(() => {
+    if (queue?.status !== "searching") return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      server.remoteFunction("pollQueue", [])
+        .then((status: QueueStatus) => {
+          if (!cancelled) handleQueueStatus(status);
+        })
+        .catch((error: unknown) => console.error("Error polling queue:", error));
+    }, QueuePollInterval);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [queue, server, handleQueueStatus]);
+
+  const handleQuickPlay = async () => {
+    if (playerName.trim() === "") return;
+    localStorage.setItem("characterClass", characterClass);
+    try {
+      handleQueueStatus(await server.remoteFunction("joinQueue", [{ mode }]));
+    } catch (error) {
+      console.error("Error joining queue:", error);
+      alert("Failed to join the queue. Please try again.");
+    }
+  };
+
+  const handleCancelQueue = () => {
+    setQueue(null);
+    server.remoteFunction("leaveQueue", [])
+      .catch((error: unknown) => console.error("Error leaving queue:", error));
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onStartGame(playerName, joinRoom ? roomId : "");
+    localStorage.setItem("characterClass", characterClass);
+    onStartGame(playerName, joinRoom ? roomId : "", {
+      mode,
+      mapId: selectedMap,
+      seed: seed.trim() !== "" ? Number(seed) : undefined,
+      characterClass,
+      roomName: (roomName.trim() || `${playerName}'s game`).slice(0, MaxRoomNameLength),
+      visibility,
+      password: password !== "" ? password : undefined
+    });
   };
 
+  const handleJoinListedRoom = (listedRoomId: string, roomPassword?: string) => {
+    localStorage.setItem("characterClass", characterClass);
+    onStartGame(playerName, listedRoomId, { characterClass, password: roomPassword });
+  };
+
+  if (queue?.status === "searching") {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gray-900">
+        <div className="bg-gray-800 p-8 rounded-lg shadow-lg w-full max-w-md text-white text-center space-y-3">
+          <h2 className="text-2xl font-bold">Finding a match…</h2>
+          <p className="text-gray-300">
+            {GameModes.find(gameMode => gameMode.id === queue.mode)?.label} · {queue.queued} searching
+          </p>
+          <p className="text-lg font-semibold">
+            {Math.floor(queue.waited / 1000)}s
+            <span className="text-sm font-normal text-gray-400">
+              {" "}· about {Math.max(1, Math.ceil(queue.estimatedWait / 1000))}s left
+            </span>
+          </p>
+          <p className="text-xs text-gray-400">
+            Rating {queue.rating}, looking for rooms within ±{queue.range}
+          </p>
+          <button
+            type="button"
+            onClick={handleCancelQueue}
+            className="w-full py-2 px-4 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-md transition duration-200"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (panel !== "lobby") {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gray-900">
+        <div className="bg-gray-800 p-8 rounded-lg shadow-lg w-full max-w-md">
+          {panel === "profile" && <ProfileView onClose={() => setPanel("lobby")} />}
+          {panel === "leaderboard" && <LeaderboardPanel onClose={() => setPanel("lobby")} />}
+          {panel === "rooms" && <RoomBrowser onJoin={handleJoinListedRoom} onClose={() => setPanel("lobby")} />}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex items-center justify-center h-screen bg-gray-900">
       <div className="bg-gray-800 p-8 rounded-lg shadow-lg w-full max-w-md">
@@ -37,6 +188,29 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({ onStartGame, initialName }) =
             />
           </div>
 
+          <div>
+            <span className="block text-sm font-medium text-gray-300 mb-1">
+              Class
+            </span>
+            <div className="grid grid-cols-3 gap-2">
+              {Object.values(CharacterClasses).map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => setCharacterClass(option.id)}
+                  className={`px-2 py-2 rounded-md text-white text-sm font-semibold transition duration-200 ${
+                    option.id === characterClass ? "bg-blue-600" : "bg-gray-700 hover:bg-gray-600"
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-400">
+              {CharacterClasses[characterClass].description}. Q: {CharacterClasses[characterClass].ability.name}
+            </p>
+          </div>
+
           <div className="flex items-center space-x-2">
             <input
               type="checkbox"
@@ -50,6 +224,118 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({ onStartGame, initialName }) =
             </label>
           </div>
 
+          {!joinRoom && (
+            <div>
+              <label htmlFor="roomName" className="block text-sm font-medium text-gray-300 mb-1">
+                Room Name
+              </label>
+              <input
+                type="text"
+                id="roomName"
+                value={roomName}
+                maxLength={MaxRoomNameLength}
+                onChange={(e) => setRoomName(e.target.value)}
+                placeholder={`${playerName}'s game`}
+                className="w-full px-4 py-2 bg-gray-700 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          {!joinRoom && (
+            <div>
+              <label htmlFor="visibility" className="block text-sm font-medium text-gray-300 mb-1">
+                Visibility
+              </label>
+              <select
+                id="visibility"
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value as RoomVisibility)}
+                className="w-full px-4 py-2 bg-gray-700 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="public">Public: listed, anyone can join</option>
+                <option value="password">Password: listed, needs the password</option>
+                <option value="private">Private: join by room ID only</option>
+              </select>
+            </div>
+          )}
+
+          {(joinRoom || visibility === "password") && (
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-1">
+                {joinRoom ? "Room Password (if any)" : "Room Password"}
+              </label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                maxLength={MaxPasswordLength}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required={!joinRoom}
+              />
+            </div>
+          )}
+
+          {!joinRoom && (
+            <div>
+              <label htmlFor="mode" className="block text-sm font-medium text-gray-300 mb-1">
+                Game Mode
+              </label>
+              <select
+                id="mode"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as GameModeId)}
+                className="w-full px-4 py-2 bg-gray-700 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {GameModes.map(gameMode => (
+                  <option key={gameMode.id} value={gameMode.id}>
+                    {gameMode.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-400">
+                {GameModes.find(gameMode => gameMode.id === mode)?.description}
+              </p>
+            </div>
+          )}
+
+          {!joinRoom && availableMaps.length > 0 && (
+            <div>
+              <label htmlFor="map" className="block text-sm font-medium text-gray-300 mb-1">
+                Map
+              </label>
+              <select
+                id="map"
+                value={selectedMap}
+                onChange={(e) => setMapId(e.target.value)}
+                className="w-full px-4 py-2 bg-gray-700 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {availableMaps.map(map => (
+                  <option key={map.id} value={map.id}>
+                    {map.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {!joinRoom && selectedMap === "random" && (
+            <div>
+              <label htmlFor="seed" className="block text-sm font-medium text-gray-300 mb-1">
+                Map Seed (optional)
+              </label>
+              <input
+                type="number"
+                id="seed"
+                min={1}
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                placeholder="Random"
+                className="w-full px-4 py-2 bg-gray-700 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
           {joinRoom && (
             <div>
               <label htmlFor="roomId" className="block text-sm font-medium text-gray-300 mb-1">
@@ -74,8 +360,41 @@ const LobbyScreen: React.FC<LobbyScreenProps> = ({ onStartGame, initialName }) =
           </button>
         </form>
         
+        <button
+          type="button"
+          onClick={handleQuickPlay}
+          className="w-full mt-3 py-2 px-4 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-md transition duration-200"
+        >
+          Quick Play ({GameModes.find(gameMode => gameMode.id === mode)?.label})
+        </button>
+        
+        <div className="flex gap-2 mt-3">
+          <button
+            type="button"
+            onClick={() => setPanel("profile")}
+            className="flex-1 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition duration-200"
+          >
+            Profile &amp; Stats
+          </button>
+          <button
+            type="button"
+            onClick={() => setPanel("rooms")}
+            className="flex-1 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition duration-200"
+          >
+            Browse Rooms
+          </button>
+          <button
+            type="button"
+            onClick={() => setPanel("leaderboard")}
+            className="flex-1 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition duration-200"
+          >
+            Leaderboards
+          </button>
+        </div>
+        
         <div className="mt-6 text-center text-sm text-gray-400">
-          <p>Use WASD to move and left mouse button to attack</p>
+          <p>Use WASD to move, SPACE to attack, left mouse button to shoot and Q for your class ability</p>
+          <p>Hold F to block and press SHIFT to dodge</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,100 @@
+import React from "react";
+import { useGameServer, useRoomState } from "@agent8/gameserver";
+import { TeamStyles } from "../game/config/GameModes";
+import type { MatchProgression } from "../game/config/ProgressionConfig";
+
+interface MatchRanking {
+  account: string;
+  name: string;
+  team: string | null;
+  score: number;
+}
+
+// Why the round ended, as reported in matchResults.reason
+const EndReasons: Record<string, string> = {
+  scoreTarget: "Score limit reached",
+  timeUp: "Time's up",
+  notEnoughPlayers: "Not enough players left"
+};
+
+const MatchOverlay: React.FC = () => {
+  const roomState = useRoomState();
+  const { server } = useGameServer();
+  const phase = roomState?.phase;
+  const timeLeft = roomState?.phaseTimeLeft ?? 0;
+
+  // Big countdown before the round starts
+  if (phase === "countdown") {
+    return (
+      <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+        <p className="text-lg text-white font-semibold drop-shadow">Round starts in</p>
+        <p className="text-6xl text-yellow-400 font-bold drop-shadow">{timeLeft}</p>
+      </div>
+    );
+  }
+
+  // Winner screen with the final ranking
+  if (phase === "results" && roomState?.matchResults) {
+    const { teamScores, winnerTeam } = roomState.matchResults;
+    const ranking: MatchRanking[] = roomState.matchResults.ranking || [];
+    const winner = ranking[0];
+    const progress: MatchProgression | undefined = roomState.matchResults.progression?.[server.account];
+    
+    // Team modes announce the winning team, free-for-all the top player
+    let title = winner ? `${winner.name} wins!` : "Round over";
+    if (teamScores) {
+      title = winnerTeam ? `${TeamStyles[winnerTeam]?.label ?? winnerTeam} team wins!` : "It's a draw!";
+    }
+
+    return (
+      <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-60">
+        <div className="bg-gray-800 p-6 rounded-lg shadow-lg w-80 text-white">
+          <h2 className="text-2xl font-bold text-center text-yellow-400 mb-1">
+            {title}
+          </h2>
+          {EndReasons[roomState.matchResults.reason] && (
+            <p className="text-xs text-center text-gray-400 mb-1">
+              {EndReasons[roomState.matchResults.reason]}
+            </p>
+          )}
+          {teamScores && (
+            <div className="flex justify-center gap-4 text-sm font-semibold mb-2">
+              {Object.entries(teamScores as Record<string, number>).map(([team, score]) => (
+                <span key={team} className={TeamStyles[team]?.textClass}>
+                  {TeamStyles[team]?.label ?? team}: {score}
+                </span>
+              ))}
+            </div>
+          )}
+          {progress && (
+            <p className="text-sm text-center font-semibold text-green-400">
+              +{progress.xp} XP{progress.leveledUp ? ` · Level ${progress.level}!` : ""}
+              {progress.ratingChange !== undefined &&
+                ` · Rating ${progress.ratingChange >= 0 ? "+" : ""}${progress.ratingChange}`}
+            </p>
+          )}
+          <p className="text-xs text-center text-gray-400 mb-4">
+            Next round in {timeLeft}s
+          </p>
+          <ol className="space-y-1">
+            {ranking.map((entry, index) => (
+              <li
+                key={entry.account}
+                className={`flex justify-between text-sm px-2 py-1 rounded ${index === 0 ? "bg-yellow-600" : "bg-gray-700"}`}
+              >
+                <span className={entry.team && index !== 0 ? TeamStyles[entry.team]?.textClass : ""}>
+                  {index + 1}. {entry.name}
+                </span>
+                <span>{entry.score}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default MatchOverlay;
@@ -0,0 +1,72 @@
+import React from "react";
+import { useGlobalMyState } from "@agent8/gameserver";
+import { EmptyProfile, getLevel, ProgressionConfig } from "../game/config/ProgressionConfig";
+import type { PlayerProfile } from "../game/config/ProgressionConfig";
+
+interface ProfileViewProps {
+  onClose: () => void;
+}
+
+// Lifetime stats and level, saved by the server in our global user state
+const ProfileView: React.FC<ProfileViewProps> = ({ onClose }) => {
+  const globalState = useGlobalMyState();
+  const profile: PlayerProfile = { ...EmptyProfile, ...globalState?.profile };
+  const { level, xpIntoLevel, xpForNextLevel } = getLevel(profile.xp);
+  
+  const kdRatio = profile.deaths > 0 ? (profile.kills / profile.deaths).toFixed(2) : String(profile.kills);
+  const winRate = profile.matchesPlayed > 0 ? Math.round(profile.wins / profile.matchesPlayed * 100) : 0;
+  const stats = [
+    { label: "Rating", value: profile.rating },
+    { label: "Matches played", value: profile.matchesPlayed },
+    { label: "Wins", value: `${profile.wins} (${winRate}%)` },
+    { label: "Kills", value: profile.kills },
+    { label: "Deaths", value: profile.deaths },
+    { label: "K/D", value: kdRatio },
+    { label: "Damage dealt", value: profile.damageDealt }
+  ];
+
+  return (
+    <div className="space-y-4 text-white">
+      <div className="flex items-baseline justify-between">
+        <h2 className="text-2xl font-bold">{profile.name ?? "Your profile"}</h2>
+        <span className="text-lg font-semibold text-yellow-400">Level {level}</span>
+      </div>
+      
+      <div>
+        <div className="w-full h-3 bg-gray-700 rounded">
+          <div
+            className="h-3 bg-yellow-500 rounded"
+            style={{ width: `${Math.round(xpIntoLevel / xpForNextLevel * 100)}%` }}
+          />
+        </div>
+        <p className="mt-1 text-xs text-gray-400">
+          {xpIntoLevel} / {xpForNextLevel} XP to level {level + 1}
+        </p>
+      </div>
+      
+      <dl className="grid grid-cols-2 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-gray-700 rounded-md px-3 py-2">
+            <dt className="text-xs text-gray-400">{stat.label}</dt>
+            <dd className="text-lg font-semibold">{stat.value}</dd>
+          </div>
+        ))}
+      </dl>
+      
+      <p className="text-xs text-gray-400">
+        Finished matches give {ProgressionConfig.xpPerMatch} XP, plus {ProgressionConfig.xpPerWin} for a
+        win and {ProgressionConfig.xpPerKill} per kill.
+      </p>
+      
+      <button
+        type="button"
+        onClick={onClose}
+        className="w-full py-2 px-4 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-md transition duration-200"
+      >
+        Back
+      </button>
+    </div>
+  );
+};
+
+export default ProfileView;
@@ -0,0 +1,143 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useGameServer } from "@agent8/gameserver";
+import { GameModes } from "../game/config/GameModes";
+import type { GameModeId } from "../game/config/GameModes";
+import type { RoomFilters, RoomListing } from "../game/types/RoomListing";
+
+interface RoomBrowserProps {
+  onJoin: (roomId: string, password?: string) => void;
+  onClose: () => void;
+}
+
+const RefreshInterval = 3000; // ms between automatic list refreshes
+
+const PhaseLabels: Record<RoomListing["phase"], string> = {
+  waiting: "Waiting",
+  countdown: "Starting",
+  playing: "In progress",
+  results: "Round over"
+};
+
+// Public and password-protected rooms, refreshed while the browser is open
+const RoomBrowser: React.FC<RoomBrowserProps> = ({ onJoin, onClose }) => {
+  const { connected, server } = useGameServer();
+  const [rooms, setRooms] = useState<RoomListing[] | null>(null);
+  const [mode, setMode] = useState<GameModeId | "">("");
+  const [hideFull, setHideFull] = useState(true);
+  const [hidePasswordProtected, setHidePasswordProtected] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const refresh = useCallback(() => {
+    const filters: RoomFilters = { mode: mode || undefined, hideFull, hidePasswordProtected };
+    server.remoteFunction("listRooms", [filters])
+      .then((list: RoomListing[]) => setRooms(list))
+      .catch((error: unknown) => console.error("Error listing rooms:", error));
+  }, [server, mode, hideFull, hidePasswordProtected]);
+
+  useEffect(() => {
+    if (!connected) return;
+    refresh();
+    const timer = setInterval(refresh, RefreshInterval);
+    return () => clearInterval(timer);
+  }, [connected, refresh]);
+
+  const handleJoin = (room: RoomListing) => {
+    if (!room.passwordProtected) {
+      onJoin(room.roomId);
+      return;
+    }
+    const password = prompt(`Password for ${room.name}`);
+    if (password) onJoin(room.roomId, password);
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleRooms = (rooms ?? []).filter(room =>
+    query === "" || room.name.toLowerCase().includes(query) || (room.hostName ?? "").toLowerCase().includes(query)
+  );
+
+  return (
+    <div className="space-y-3 text-white">
+      <div className="flex items-baseline justify-between">
+        <h2 className="text-2xl font-bold">Rooms</h2>
+        <button type="button" onClick={refresh} className="text-sm text-blue-400 hover:text-blue-300">
+          Refresh
+        </button>
+      </div>
+      
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search rooms or hosts"
+          className="flex-1 px-3 py-1 bg-gray-700 text-white text-sm rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as GameModeId | "")}
+          className="px-2 py-1 bg-gray-700 text-white text-sm rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All modes</option>
+          {GameModes.map(gameMode => (
+            <option key={gameMode.id} value={gameMode.id}>
+              {gameMode.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-4 text-sm text-gray-300">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={hideFull} onChange={() => setHideFull(!hideFull)} />
+          Hide full or locked
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={hidePasswordProtected} onChange={() => setHidePasswordProtected(!hidePasswordProtected)} />
+          Hide password-protected
+        </label>
+      </div>
+      
+      {rooms && visibleRooms.length === 0 ? (
+        <p className="text-sm text-center text-gray-400 py-4">No rooms found</p>
+      ) : (
+        <ul className="space-y-1 max-h-72 overflow-y-auto">
+          {visibleRooms.map(room => (
+            <li key={room.roomId} className="flex items-center justify-between gap-2 bg-gray-700 rounded px-2 py-1">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold truncate">
+                  {room.passwordProtected && "🔒 "}{room.name}
+                  {room.locked && <span className="ml-1 text-xs font-normal text-red-400">Locked</span>}
+                </p>
+                <p className="text-xs text-gray-400 truncate">
+                  {GameModes.find(gameMode => gameMode.id === room.mode)?.label ?? room.mode}
+                  {room.mapName && ` · ${room.mapName}`} · {PhaseLabels[room.phase] ?? room.phase}
+                  {room.hostName && ` · Host: ${room.hostName}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-sm">{room.players}/{room.maxPlayers}</span>
+                <button
+                  type="button"
+                  disabled={room.locked || room.players >= room.maxPlayers}
+                  onClick={() => handleJoin(room)}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-sm font-semibold rounded-md disabled:opacity-40"
+                >
+                  Join
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      
+      <button
+        type="button"
+        onClick={onClose}
+        className="w-full py-2 px-4 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-md transition duration-200"
+      >
+        Back
+      </button>
+    </div>
+  );
+};
+
+export default RoomBrowser;
@@ -0,0 +1,128 @@
+// Playable classes (stats mirror CHARACTER_CLASSES in server.js, which is what decides
+// damage, cooldowns and health; the client uses them to predict and to draw)
+export interface AnimationConfig {
+  key: string;
+  frames: {
+    start: number;
+    end: number;
+  };
+  frameRate: number;
+  repeat: number;
+}
+
+export type CharacterClassId = "knight" | "archer" | "mage";
+
+export interface MeleeStats {
+  damage: number;
+  cooldown: number; // ms between attacks
+  hitboxWidth: number;
+  hitboxHeight: number;
+  hitboxOffset: number; // Distance from the character's center to the hitbox's near edge
+}
+
+export interface RangedStats {
+  damage: number;
+  fireInterval: number; // ms between shots
+  energyCost: number;
+  speed: number; // px per second
+  lifetime: number; // ms
+}
+
+export type AbilityConfig =
+  | { kind: "dash"; distance: number } // Rush forward, stopped by walls
+  | { kind: "volley"; count: number; spread: number } // Fan of projectiles; spread in radians
+  | { kind: "nova"; radius: number; damage: number }; // Burst around the caster
+
+export interface CharacterClass {
+  id: CharacterClassId;
+  name: string;
+  description: string;
+  texture: string; // Phaser texture key
+  spriteSheet: string;
+  frameWidth: number;
+  frameHeight: number;
+  scale: number;
+  animations: {
+    idle: AnimationConfig;
+    walk: AnimationConfig;
+    attack: AnimationConfig;
+  };
+  speed: number; // px per second; powerups scale it
+  maxHealth: number;
+  melee: MeleeStats;
+  ranged: RangedStats;
+  ability: AbilityConfig & {
+    name: string;
+    cooldown: number; // ms
+  };
+}
+
+// Only the knight has its own art so far; the other classes share its sheet
+const KnightSpriteSheet = "https://agent8-games.verse8.io/assets/2D/sprite_characters/medieval-knight.png";
+
+// Frame layout of the medieval knight sheet, with animation keys per class
+function knightAnimations(prefix: string): CharacterClass["animations"] {
+  return {
+    idle: { key: `${prefix}-idle`, frames: { start: 0, end: 3 }, frameRate: 8, repeat: -1 },
+    walk: { key: `${prefix}-walk`, frames: { start: 4, end: 11 }, frameRate: 12, repeat: -1 },
+    attack: { key: `${prefix}-attack`, frames: { start: 12, end: 17 }, frameRate: 15, repeat: 0 }
+  };
+}
+
+export const CharacterClasses: Record<CharacterClassId, CharacterClass> = {
+  knight: {
+    id: "knight",
+    name: "Knight",
+    description: "Sturdy melee fighter who charges into the fray",
+    texture: "knight",
+    spriteSheet: KnightSpriteSheet,
+    frameWidth: 192,
+    frameHeight: 192,
+    scale: 0.5,
+    animations: knightAnimations("knight"),
+    speed: 200,
+    maxHealth: 100,
+    melee: { damage: 10, cooldown: 500, hitboxWidth: 80, hitboxHeight: 60, hitboxOffset: 96 },
+    ranged: { damage: 10, fireInterval: 400, energyCost: 20, speed: 500, lifetime: 2000 },
+    ability: { kind: "dash", name: "Charge", cooldown: 8000, distance: 220 }
+  },
+  archer: {
+    id: "archer",
+    name: "Archer",
+    description: "Fast and fragile, with long-range rapid shots",
+    texture: "archer",
+    spriteSheet: KnightSpriteSheet,
+    frameWidth: 192,
+    frameHeight: 192,
+    scale: 0.45,
+    animations: knightAnimations("archer"),
+    speed: 220,
+    maxHealth: 80,
+    melee: { damage: 6, cooldown: 600, hitboxWidth: 60, hitboxHeight: 50, hitboxOffset: 86 },
+    ranged: { damage: 12, fireInterval: 300, energyCost: 15, speed: 650, lifetime: 1500 },
+    ability: { kind: "volley", name: "Volley", cooldown: 10000, count: 5, spread: 0.4 }
+  },
+  mage: {
+    id: "mage",
+    name: "Mage",
+    description: "Slow caster with heavy bolts and an area blast",
+    texture: "mage",
+    spriteSheet: KnightSpriteSheet,
+    frameWidth: 192,
+    frameHeight: 192,
+    scale: 0.5,
+    animations: knightAnimations("mage"),
+    speed: 190,
+    maxHealth: 90,
+    melee: { damage: 8, cooldown: 700, hitboxWidth: 70, hitboxHeight: 60, hitboxOffset: 96 },
+    ranged: { damage: 14, fireInterval: 500, energyCost: 25, speed: 450, lifetime: 2000 },
+    ability: { kind: "nova", name: "Frost Nova", cooldown: 12000, radius: 160, damage: 20 }
+  }
+};
+
+export const DefaultCharacterClass: CharacterClassId = "knight";
+
+// Unknown or missing ids (older state, bad input) fall back to the default class
+export function getCharacterClass(id: string | null | undefined): CharacterClass {
+  return CharacterClasses[id as CharacterClassId] ?? CharacterClasses[DefaultCharacterClass];
+}
@@ -0,0 +1,14 @@
+// Values mirrored from server.js so the client can predict what the server will accept.
+// Per-class damage, cooldowns and projectiles live in CharacterConfig
+export const CombatConfig = {
+  maxEnergy: 100,
+  maxStamina: 100,
+  meleeStaminaCost: 10,
+  block: {
+    speedMultiplier: 0.5 // Movement while holding up the guard
+  },
+  dodge: {
+    staminaCost: 30,
+    cooldown: 800 // ms between rolls
+  }
+};
@@ -0,0 +1,50 @@
+export type GameModeId = "ffa" | "tdm" | "ctf" | "koth";
+
+export interface GameModeConfig {
+  id: GameModeId;
+  label: string;
+  description: string;
+  teams: boolean;
+}
+
+// Modes the room creator can pick (mirrors Server.GAME_MODES in server.js)
+export const GameModes: GameModeConfig[] = [
+  {
+    id: "ffa",
+    label: "Free for All",
+    description: "Every knight for themselves",
+    teams: false
+  },
+  {
+    id: "tdm",
+    label: "Team Deathmatch",
+    description: "Red versus blue, combined kills win",
+    teams: true
+  },
+  {
+    id: "ctf",
+    label: "Capture the Flag",
+    description: "Steal the enemy flag and bring it to your base",
+    teams: true
+  },
+  {
+    id: "koth",
+    label: "King of the Hill",
+    description: "Hold the capture zones alone to score every second",
+    teams: false
+  }
+];
+
+export const TeamColors: Record<string, number> = {
+  red: 0xff5555,
+  blue: 0x5599ff
+};
+
+// Scoreboard styling per team (Tailwind classes)
+export const TeamStyles: Record<string, { label: string; textClass: string }> = {
+  red: { label: "Red", textClass: "text-red-400" },
+  blue: { label: "Blue", textClass: "text-blue-400" }
+};
+
+export const isTeamMode = (mode: string | undefined) =>
+  GameModes.some(m => m.id === mode && m.teams);
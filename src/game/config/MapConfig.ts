@@ -0,0 +1,27 @@
+// Map layout as stored in room state (mirrors Server.getMapLayout in server.js)
+export interface MapLayout {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  background: string;
+  spawnPoints: { x: number; y: number; team: string | null }[];
+  powerupZones: { x: number; y: number; radius: number; table?: string }[];
+  powerupPads: { id: string; x: number; y: number; table?: string; respawnDelay?: number }[];
+  bases: Record<string, { x: number; y: number }>;
+  zones: { id: string; x: number; y: number; radius: number }[];
+}
+
+// Entry returned by the server's getMapList
+export interface MapListEntry {
+  id: string;
+  name: string;
+  modes: string[];
+}
+
+export const DefaultMapSize = 2000;
+
+// Background images a map can reference by key; unknown keys fall back to "space"
+export const MapBackgrounds: Record<string, string> = {
+  space: "https://raw.githubusercontent.com/photonstorm/phaser3-examples/master/public/assets/skies/space3.png"
+};
@@ -0,0 +1,6 @@
+// Movement tuning shared by prediction and the server simulation (mirrors server.js)
+export const MovementConfig = {
+  bodySize: 48, // Collision box of a knight in world pixels
+  mapBorder: 25, // Half of a border wall block
+  maxInputDuration: 100 // ms; longer frames are clamped
+};
@@ -0,0 +1,15 @@
+// How remote players are rendered from replicated state
+export const NetworkConfig = {
+  sendIntervalNear: 120, // ms between input batches with another player within nearDistance
+  minSendGap: 110, // ms between any two batches, action-triggered ones included (the SDK rejects 10 unthrottled calls a second)
+  sendIntervalFar: 150, // ms between input batches otherwise
+  nearDistance: 700, // px, roughly the visible area
+  snapshotInterval: 50, // ms between updates of a nearby moving player
+  idleGap: 300, // ms without updates after which a player is assumed to have stood still
+  interpolationDelay: 100, // ms remote players are rendered behind the newest snapshot
+  maxExtrapolation: 200, // ms a moving player keeps going when snapshots are late
+  snapDistance: 300, // px; bigger jumps (respawns) teleport instead of sliding
+  bufferDuration: 1000, // ms of snapshots kept per player
+  clockSyncInterval: 5000, // ms between server clock samples
+  statsWindow: 5000 // ms of traffic averaged by the network overlay
+};
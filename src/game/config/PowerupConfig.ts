@@ -0,0 +1,91 @@
+// Powerup catalog (mirrors POWERUPS in server.js, which applies the effects). A new
+// powerup needs an entry here and there; gameplay code only reads the effect fields
+export type PowerupStacking =
+  | "instant" // Applied once on pickup, nothing stays active
+  | "refresh" // Picking it up again restarts the timer
+  | "extend"; // Picking it up again adds its duration, up to maxDuration
+
+export interface PowerupEffects {
+  heal?: number; // Health restored on pickup
+  speedMultiplier?: number;
+  shield?: number; // Damage absorbed before health while active
+  damageMultiplier?: number;
+  fireIntervalMultiplier?: number; // Below 1 fires faster
+  hidden?: boolean; // Name and health bar are hidden from other players
+}
+
+export interface PowerupDefinition {
+  name: string;
+  icon: string; // Glyph on the active effect icon
+  color: number; // Orb tint, glow and icon color
+  duration: number; // ms; 0 for instant powerups
+  maxDuration?: number; // Cap for "extend" stacking
+  stacking: PowerupStacking;
+  effects: PowerupEffects;
+}
+
+export const PowerupCatalog: Record<string, PowerupDefinition> = {
+  health: {
+    name: "Health",
+    icon: "+",
+    color: 0xff0000,
+    duration: 0,
+    stacking: "instant",
+    effects: { heal: 25 }
+  },
+  speed: {
+    name: "Speed",
+    icon: "»",
+    color: 0x00ffff,
+    duration: 5000,
+    stacking: "refresh",
+    effects: { speedMultiplier: 1.5 }
+  },
+  shield: {
+    name: "Shield",
+    icon: "S",
+    color: 0x4488ff,
+    duration: 10000,
+    stacking: "refresh",
+    effects: { shield: 50 }
+  },
+  damage: {
+    name: "Damage",
+    icon: "!",
+    color: 0xff8800,
+    duration: 8000,
+    maxDuration: 16000,
+    stacking: "extend",
+    effects: { damageMultiplier: 1.5 }
+  },
+  invisibility: {
+    name: "Invisibility",
+    icon: "?",
+    color: 0xaa66ff,
+    duration: 6000,
+    stacking: "refresh",
+    effects: { hidden: true }
+  },
+  rapidFire: {
+    name: "Rapid fire",
+    icon: "R",
+    color: 0xffff00,
+    duration: 6000,
+    stacking: "refresh",
+    effects: { fireIntervalMultiplier: 0.5 }
+  }
+};
+
+// Stand-in for types this client does not know yet, so they still render
+const UnknownPowerup: PowerupDefinition = {
+  name: "Powerup",
+  icon: "•",
+  color: 0xffffff,
+  duration: 0,
+  stacking: "instant",
+  effects: {}
+};
+
+export function getPowerup(type: string): PowerupDefinition {
+  return PowerupCatalog[type] ?? UnknownPowerup;
+}
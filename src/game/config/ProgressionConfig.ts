@@ -0,0 +1,61 @@
+// XP rewards, the level curve and skill rating (mirrors server.js, which awards XP and
+// updates ratings at the end of a match)
+export const ProgressionConfig = {
+  xpPerMatch: 50,
+  xpPerWin: 100,
+  xpPerKill: 20,
+  xpPerDamage: 0.2,
+  levelBaseXp: 200, // XP from level 1 to 2; every further level needs that much more
+  initialRating: 1000 // Elo rating of a new account; quick play matches on it
+};
+
+// Lifetime stats of an account, stored in its global user state as `profile`
+export interface PlayerProfile {
+  name: string | null;
+  kills: number;
+  deaths: number;
+  matchesPlayed: number;
+  wins: number;
+  damageDealt: number;
+  xp: number;
+  rating: number;
+}
+
+// What the last match gave each player, published with the match results
+export interface MatchProgression {
+  xp: number;
+  level: number;
+  leveledUp: boolean;
+  rating: number;
+  ratingChange: number;
+}
+
+export const EmptyProfile: PlayerProfile = {
+  name: null,
+  kills: 0,
+  deaths: 0,
+  matchesPlayed: 0,
+  wins: 0,
+  damageDealt: 0,
+  xp: 0,
+  rating: ProgressionConfig.initialRating
+};
+
+export interface LevelProgress {
+  level: number;
+  xpIntoLevel: number;
+  xpForNextLevel: number;
+}
+
+// Level for a total amount of XP; must stay identical to Server.getLevel
+export function getLevel(xp: number): LevelProgress {
+  let level = 1;
+  let needed = ProgressionConfig.levelBaseXp;
+  let remaining = xp;
+  while (remaining >= needed) {
+    remaining -= needed;
+    level++;
+    needed += ProgressionConfig.levelBaseXp;
+  }
+  return { level, xpIntoLevel: remaining, xpForNextLevel: needed };
+}
@@ -0,0 +1,19 @@
+// Per-room rules the host can change between rounds (mirrors ROOM_RULE_LIMITS and
+// createRoomRules in server.js, which enforces them)
+export interface RoomRules {
+  maxPlayers: number;
+  minPlayers: number; // Fixed by the server
+  roundDuration: number; // ms
+  scoreTarget: number; // Kills, captures or hill points, depending on the mode
+  damageMultiplier: number;
+  powerups: boolean;
+  friendlyFire: boolean; // Team modes only
+  mapId: string;
+}
+
+export const RoomRuleLimits = {
+  maxPlayers: { min: 2, max: 16 },
+  roundDuration: { min: 60000, max: 900000 },
+  scoreTarget: { min: 1, max: 500 },
+  damageMultiplier: { min: 0.25, max: 4 }
+};
@@ -0,0 +1,53 @@
+import Phaser from "phaser";
+
+export class CaptureZone {
+  public id: string;
+  private x: number;
+  private y: number;
+  private radius: number;
+  private graphics: Phaser.GameObjects.Graphics;
+  
+  constructor(scene: Phaser.Scene, id: string, x: number, y: number, radius: number) {
+    this.id = id;
+    this.x = x;
+    this.y = y;
+    this.radius = radius;
+    
+    this.graphics = scene.add.graphics();
+    
+    // Draw below players and powerups
+    this.graphics.setDepth(1);
+    
+    this.draw(0, null, null, false);
+  }
+  
+  draw(progress: number, ownerColor: number | null, capturerColor: number | null, contested: boolean) {
+    this.graphics.clear();
+    
+    // Fill with the owner's color, grey while neutral
+    this.graphics.fillStyle(ownerColor ?? 0x888888, 0.2);
+    this.graphics.fillCircle(this.x, this.y, this.radius);
+    
+    // Outline flashes red while contested
+    this.graphics.lineStyle(3, contested ? 0xff3333 : ownerColor ?? 0xcccccc, 0.8);
+    this.graphics.strokeCircle(this.x, this.y, this.radius);
+    
+    // Capture progress ring in the capturer's color
+    if (capturerColor !== null && progress > 0) {
+      this.graphics.lineStyle(6, capturerColor, 0.9);
+      this.graphics.beginPath();
+      this.graphics.arc(
+        this.x,
+        this.y,
+        this.radius - 6,
+        -Math.PI / 2,
+        -Math.PI / 2 + progress * Math.PI * 2
+      );
+      this.graphics.strokePath();
+    }
+  }
+  
+  destroy() {
+    this.graphics.destroy();
+  }
+}
@@ -0,0 +1,33 @@
+import Phaser from "phaser";
+import { TeamColors } from "../config/GameModes";
+
+export class Flag {
+  public team: string;
+  private graphics: Phaser.GameObjects.Graphics;
+  
+  constructor(scene: Phaser.Scene, x: number, y: number, team: string) {
+    this.team = team;
+    
+    // Draw the pole and banner around the flag's base point
+    this.graphics = scene.add.graphics();
+    this.graphics.fillStyle(0xdddddd, 1);
+    this.graphics.fillRect(-2, -34, 3, 36);
+    this.graphics.fillStyle(TeamColors[team] ?? 0xffffff, 1);
+    this.graphics.fillTriangle(1, -34, 26, -26, 1, -18);
+    this.graphics.lineStyle(1, 0x000000, 0.8);
+    this.graphics.strokeTriangle(1, -34, 26, -26, 1, -18);
+    
+    this.graphics.setPosition(x, y);
+    
+    // Above the knights so a carried flag stays visible
+    this.graphics.setDepth(12);
+  }
+  
+  setPosition(x: number, y: number) {
+    this.graphics.setPosition(x, y);
+  }
+  
+  destroy() {
+    this.graphics.destroy();
+  }
+}
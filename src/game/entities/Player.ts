@@ -1,15 +1,27 @@
 import Phaser from "phaser";
-import { KnightConfig } from "../config/KnightConfig";
+import { getCharacterClass } from "../config/CharacterConfig";
+import type { CharacterClass } from "../config/CharacterConfig";
+import { CombatConfig } from "../config/CombatConfig";
+import { TeamColors } from "../config/GameModes";
+import { NetworkConfig } from "../config/NetworkConfig";
+import { PowerupCatalog } from "../config/PowerupConfig";
+import type { PowerupEffects } from "../config/PowerupConfig";
+import { getFacingAngle, getFacingVector } from "../systems/Movement";
+import { SnapshotBuffer } from "../systems/SnapshotBuffer";
+import type { Snapshot } from "../systems/SnapshotBuffer";
 
 export class Player {
   public sprite: Phaser.Physics.Arcade.Sprite;
   public health: number = 100;
+  public stamina: number = CombatConfig.maxStamina;
+  public isDead: boolean = false;
+  public team: string | null = null;
   private scene: Phaser.Scene;
+  private characterClass: CharacterClass;
   private nameText: Phaser.GameObjects.Text;
   private healthBar: Phaser.GameObjects.Graphics;
-  private speedBoostTimer: number | null = null;
-  private normalSpeed: number = 200;
-  private boostedSpeed: number = 300;
+  private effects: Record<string, number> = {}; // Active powerups -> local expiry time
+  private moveInput: { x: number, y: number } = { x: 0, y: 0 };
   private id: string;
   private name: string;
   private isLocalPlayer: boolean;
@@ -24,7 +36,15 @@ export class Player {
   // Animation state
   private currentAnimation: string = "idle";
   private isAttacking: boolean = false;
-  private lastDirection: { x: number, y: number } = { x: 0, y: 0 };
+  
+  // 8-way facing in degrees (see getFacingAngle); with mouse aim it follows the cursor
+  private facingAngle: number = 0;
+  private mouseAim: boolean = false;
+  private blocking: boolean = false;
+  
+  // Remote players are drawn from replicated snapshots
+  private snapshots: SnapshotBuffer = new SnapshotBuffer();
+  private lastAttackAt: number | null = null;
   
   // Player color tint
   private colorTint: number;
@@ -46,25 +66,24 @@ export class Player {
     scene: Phaser.Scene,
     x: number,
     y: number,
-    texture: string,
+    characterClassId: string,
     name: string,
     id: string,
-    colorIndex?: number
+    colorIndex?: number,
+    team?: string | null
   ) {
     this.scene = scene;
     this.id = id;
     this.name = name;
     this.isLocalPlayer = id === (scene as any).myAccount;
+    this.characterClass = getCharacterClass(characterClassId);
+    this.health = this.characterClass.maxHealth;
     
     // Create sprite
-    this.sprite = scene.physics.add.sprite(x, y, texture);
-    this.sprite.setScale(KnightConfig.scale);
+    this.sprite = scene.physics.add.sprite(x, y, this.characterClass.texture);
     this.sprite.setCollideWorldBounds(true);
     this.sprite.setData("id", id);
-    
-    // Set body size for better collision
-    this.sprite.setSize(KnightConfig.frameWidth * 0.5, KnightConfig.frameHeight * 0.5);
-    this.sprite.setOffset(KnightConfig.frameWidth * 0.25, KnightConfig.frameHeight * 0.25);
+    this.applyClassSprite();
     
     // Set color tint based on whether this is the local player or an opponent
     if (this.isLocalPlayer) {
@@ -77,11 +96,17 @@ export class Player {
       this.colorTint = Player.PLAYER_COLORS[index];
     }
     
+    // Team colors override the per-player tint
+    if (team && TeamColors[team] !== undefined) {
+      this.team = team;
+      this.colorTint = TeamColors[team];
+    }
+    
     // Apply the color tint
     this.sprite.setTint(this.colorTint);
     
     // Create name text
-    this.nameText = scene.add.text(x, y - 50, name, {
+    this.nameText = scene.add.text(x, y - 50, this.getLabel(), {
       fontSize: "14px",
       color: "#ffffff",
       stroke: "#000000",
@@ -109,6 +134,48 @@ export class Player {
     this.sprite.on('animationcomplete', this.onAnimationComplete, this);
   }
   
+  // Sheet, scale and body size of the current class
+  private applyClassSprite() {
+    const { texture, scale, frameWidth, frameHeight } = this.characterClass;
+    this.sprite.setTexture(texture);
+    this.sprite.setScale(scale);
+    
+    // Set body size for better collision
+    this.sprite.setSize(frameWidth * 0.5, frameHeight * 0.5);
+    this.sprite.setOffset(frameWidth * 0.25, frameHeight * 0.25);
+  }
+  
+  private getLabel(): string {
+    return `${this.name} (${this.characterClass.name})`;
+  }
+  
+  // Switch to the class the server has for this player
+  setCharacterClass(characterClassId: string | undefined) {
+    const characterClass = getCharacterClass(characterClassId);
+    if (characterClass === this.characterClass) return;
+    
+    this.characterClass = characterClass;
+    this.applyClassSprite();
+    this.nameText.setText(this.getLabel());
+    this.health = Math.min(this.health, characterClass.maxHealth);
+    
+    // Restart the current animation from the new class's sheet
+    this.isAttacking = false;
+    if (this.currentAnimation === "walk") {
+      this.playWalkAnimation();
+    } else {
+      this.playIdleAnimation();
+    }
+  }
+  
+  getCharacterClass(): CharacterClass {
+    return this.characterClass;
+  }
+  
+  get maxHealth(): number {
+    return this.characterClass.maxHealth;
+  }
+  
   // Simple string hash function to generate a consistent number from player ID
   private hashCode(str: string): number {
     let hash = 0;
@@ -134,71 +201,87 @@ export class Player {
   }
   
   update() {
+    if (!this.isLocalPlayer) {
+      this.renderSnapshot();
+    }
+    
+    // Drop powerups that ran out
+    const now = Date.now();
+    const expired = Object.keys(this.effects).filter(type => this.effects[type] <= now);
+    if (expired.length > 0) {
+      expired.forEach(type => delete this.effects[type]);
+      this.updateVisibility();
+    }
+    
     // Update name text and health bar position
     this.nameText.setPosition(this.sprite.x, this.sprite.y - 50);
     this.updateHealthBar();
     
     // Handle movement for local player
-    if (this.isLocalPlayer && !this.isAttacking) {
+    this.moveInput = { x: 0, y: 0 };
+    if (this.isLocalPlayer && !this.isAttacking && !this.isDead) {
       this.handleMovement();
       this.handleRotation();
     }
   }
   
+  // Direction the local player is holding this frame; GameScene turns it into a position
+  getMoveInput() {
+    return this.moveInput;
+  }
+  
+  getMoveSpeed() {
+    const guard = this.blocking ? CombatConfig.block.speedMultiplier : 1;
+    return this.characterClass.speed * this.getEffectModifier("speedMultiplier") * guard;
+  }
+  
+  // Product of a multiplier over the active powerups (1 without any)
+  getEffectModifier(field: "speedMultiplier" | "damageMultiplier" | "fireIntervalMultiplier") {
+    return Object.keys(this.effects).reduce((value, type) => value * (PowerupCatalog[type]?.effects[field] ?? 1), 1);
+  }
+  
+  hasEffect(field: keyof PowerupEffects) {
+    return Object.keys(this.effects).some(type => !!PowerupCatalog[type]?.effects[field]);
+  }
+  
+  // Replace the active powerups with the server's, as local expiry times
+  setEffects(effects: Record<string, number>) {
+    this.effects = { ...effects };
+    this.updateVisibility();
+  }
+  
   private handleMovement() {
     if (!this.cursors || !this.wasdKeys) return;
     
-    // Reset velocity
-    this.sprite.setVelocity(0);
-    
-    // Get current speed (normal or boosted)
-    const speed = this.speedBoostTimer !== null ? this.boostedSpeed : this.normalSpeed;
-    
     // Track if player is moving
     let isMoving = false;
     let directionX = 0;
     let directionY = 0;
     
-    // Apply movement based on input
+    // Read movement input
     if (this.cursors.left.isDown || this.wasdKeys.left.isDown) {
-      this.sprite.setVelocityX(-speed);
       directionX = -1;
       isMoving = true;
     } else if (this.cursors.right.isDown || this.wasdKeys.right.isDown) {
-      this.sprite.setVelocityX(speed);
       directionX = 1;
       isMoving = true;
     }
     
     if (this.cursors.up.isDown || this.wasdKeys.up.isDown) {
-      this.sprite.setVelocityY(-speed);
       directionY = -1;
-      
-
       isMoving = true;
     } else if (this.cursors.down.isDown || this.wasdKeys.down.isDown) {
-      this.sprite.setVelocityY(speed);
       directionY = 1;
       isMoving = true;
     }
     
-    // Normalize diagonal movement
-    if (this.sprite.body.velocity.x !== 0 || this.sprite.body.velocity.y !== 0) {
-      this.sprite.body.velocity.normalize().scale(speed);
-    }
+    this.moveInput = { x: directionX, y: directionY };
     
     // Update animation based on movement
     if (isMoving) {
-      // Save last direction for sprite flipping
-      if (directionX !== 0) {
-        this.lastDirection.x = directionX;
-      }
-      
-      // Flip sprite based on horizontal direction
-      if (directionX < 0) {
-        this.sprite.setFlipX(true);
-      } else if (directionX > 0) {
-        this.sprite.setFlipX(false);
+      // Face the way we move unless the cursor is aiming
+      if (!this.mouseAim) {
+        this.setFacing(getFacingAngle(directionX, directionY) ?? this.facingAngle);
       }
       
       // Play walk animation if not already playing
@@ -213,51 +296,84 @@ export class Player {
     }
   }
   
+  // With mouse aim, face the cursor; the sprite itself only flips, never rotates
   private handleRotation() {
-    // We don't rotate the knight sprite, we just flip it based on direction
-    // which is handled in handleMovement
+    if (!this.mouseAim) return;
+    
+    const { activePointer } = this.scene.input;
+    const pointer = this.scene.cameras.main.getWorldPoint(activePointer.x, activePointer.y);
+    const angle = getFacingAngle(pointer.x - this.sprite.x, pointer.y - this.sprite.y);
+    if (angle !== null) {
+      this.setFacing(angle);
+    }
   }
   
-  moveTo(x: number, y: number) {
-    // For non-local players, smoothly move to the target position
-    this.scene.tweens.add({
-      targets: this.sprite,
-      x: x,
-      y: y,
-      duration: 100,
-      ease: "Linear",
-      onUpdate: () => {
-        // Determine if this is movement and play appropriate animation
-        const distance = Phaser.Math.Distance.Between(this.sprite.x, this.sprite.y, x, y);
-        if (distance > 5) {
-          // Flip sprite based on movement direction
-          if (x < this.sprite.x) {
-            this.sprite.setFlipX(true);
-          } else if (x > this.sprite.x) {
-            this.sprite.setFlipX(false);
-          }
-          
-          // Play walk animation if not already playing
-          if (this.currentAnimation !== "walk") {
-            this.playWalkAnimation();
-          }
-        } else {
-          // Play idle animation if not already playing and not too far
-          if (this.currentAnimation !== "idle") {
-            this.playIdleAnimation();
-          }
-        }
-      }
-    });
+  // Straight up or down keeps whichever side the sprite last looked at
+  setFacing(angle: number) {
+    this.facingAngle = angle;
+    const { x } = getFacingVector(angle);
+    if (Math.abs(x) > 0.01) {
+      this.sprite.setFlipX(x < 0);
+    }
+  }
+  
+  getFacingAngle(): number {
+    return this.facingAngle;
+  }
+  
+  setMouseAim(enabled: boolean) {
+    this.mouseAim = enabled;
+  }
+  
+  isMouseAim(): boolean {
+    return this.mouseAim;
+  }
+  
+  // Record replicated state for a remote player (rendered later by renderSnapshot)
+  pushSnapshot(snapshot: Snapshot) {
+    // The first swing we see is history, not an attack to replay
+    if (this.lastAttackAt === null) {
+      this.lastAttackAt = snapshot.attackAt;
+    }
+    this.snapshots.push(snapshot);
+  }
+  
+  private renderSnapshot() {
+    const state = this.snapshots.sample(this.scene.time.now - NetworkConfig.interpolationDelay);
+    if (!state) return;
+    
+    this.sprite.setPosition(state.x, state.y);
+    this.setFacing(state.angle);
+    
+    if (this.lastAttackAt !== null && state.attackAt > this.lastAttackAt) {
+      this.playAttackAnimation();
+    }
+    this.lastAttackAt = state.attackAt;
+    
+    // Attacks finish on their own; otherwise follow the replicated movement state
+    if (this.isAttacking) return;
+    if (state.anim === "walk" && this.currentAnimation !== "walk") {
+      this.playWalkAnimation();
+    } else if (state.anim !== "walk" && this.currentAnimation !== "idle") {
+      this.playIdleAnimation();
+    }
+  }
+  
+  getName(): string {
+    return this.name;
+  }
+  
+  getColor(): number {
+    return this.colorTint;
   }
   
   playIdleAnimation() {
-    this.sprite.play(KnightConfig.animations.idle.key);
+    this.sprite.play(this.characterClass.animations.idle.key);
     this.currentAnimation = "idle";
   }
   
   playWalkAnimation() {
-    this.sprite.play(KnightConfig.animations.walk.key);
+    this.sprite.play(this.characterClass.animations.walk.key);
     this.currentAnimation = "walk";
   }
   
@@ -265,13 +381,13 @@ export class Player {
     if (this.isAttacking) return;
     
     this.isAttacking = true;
-    this.sprite.play(KnightConfig.animations.attack.key);
+    this.sprite.play(this.characterClass.animations.attack.key);
     this.currentAnimation = "attack";
   }
   
   private onAnimationComplete(animation: Phaser.Animations.Animation) {
     // When attack animation completes, go back to idle
-    if (animation.key === KnightConfig.animations.attack.key) {
+    if (animation.key === this.characterClass.animations.attack.key) {
       this.isAttacking = false;
       this.playIdleAnimation();
     }
@@ -280,11 +396,11 @@ export class Player {
   damage(amount: number) {
     this.health = Math.max(0, this.health - amount);
     
-    // Emit event for UI updates
-    this.scene.events.emit("updateHealth", this.health);
-    
-    // Visual feedback
-    this.scene.cameras.main.shake(100, 0.01);
+    // Emit event for UI updates and shake the camera, only for our own knight
+    if (this.isLocalPlayer) {
+      this.scene.events.emit("updateHealth", this.health, this.maxHealth);
+      this.scene.cameras.main.shake(100, 0.01);
+    }
     
     // Store original tint
     const originalTint = this.colorTint;
@@ -298,10 +414,12 @@ export class Player {
   }
   
   heal(amount: number) {
-    this.health = Math.min(100, this.health + amount);
+    this.health = Math.min(this.maxHealth, this.health + amount);
     
-    // Emit event for UI updates
-    this.scene.events.emit("updateHealth", this.health);
+    // Emit event for UI updates, only for our own knight
+    if (this.isLocalPlayer) {
+      this.scene.events.emit("updateHealth", this.health, this.maxHealth);
+    }
     
     // Visual feedback
     // Store original tint
@@ -315,43 +433,93 @@ export class Player {
     });
   }
   
-  applySpeedBoost(duration: number) {
-    // Clear existing timer if any
-    if (this.speedBoostTimer !== null) {
-      this.scene.time.removeEvent(this.speedBoostTimer);
-    }
-    
-    // Store original tint
+  // Short tint flash for powerup pickups
+  flash(color: number) {
     const originalTint = this.colorTint;
-    
-    // Apply visual effect (cyan tint)
-    this.sprite.setTint(0x00ffff);
-    
-    // Set timer to remove boost after duration
-    this.speedBoostTimer = this.scene.time.delayedCall(duration, () => {
-      // Restore original tint
+    this.sprite.setTint(color);
+    this.scene.time.delayedCall(150, () => {
       this.sprite.setTint(originalTint);
-      this.speedBoostTimer = null;
+    });
+  }
+  
+  setStamina(stamina: number) {
+    this.stamina = stamina;
+  }
+  
+  // Guard stance as replicated by the server, drawn as an arc on the facing side
+  setBlocking(blocking: boolean) {
+    this.blocking = blocking;
+  }
+  
+  isBlocking(): boolean {
+    return this.blocking;
+  }
+  
+  // Tumble once over the roll's duration
+  roll(duration: number) {
+    this.scene.tweens.add({
+      targets: this.sprite,
+      angle: this.sprite.flipX ? -360 : 360,
+      duration,
+      onComplete: () => this.sprite.setAngle(0)
     });
   }
   
   setHealth(health: number) {
+    if (this.isLocalPlayer && health !== this.health) {
+      this.scene.events.emit("updateHealth", health, this.maxHealth);
+    }
+    
     this.health = health;
     this.updateHealthBar();
   }
   
+  setTeam(team: string | null) {
+    if (this.team === team) return;
+    this.team = team;
+    
+    // Switch to the team color, or back to the default tint without a team
+    if (team && TeamColors[team] !== undefined) {
+      this.colorTint = TeamColors[team];
+    } else if (this.isLocalPlayer) {
+      this.colorTint = Player.PLAYER_COLORS[0];
+    }
+    this.sprite.setTint(this.colorTint);
+  }
+  
+  setDead(dead: boolean) {
+    if (this.isDead === dead) return;
+    this.isDead = dead;
+    
+    // Hide the knight and stop it while dead; the next life starts a fresh buffer
+    this.sprite.setVelocity(0);
+    this.snapshots.clear();
+    this.sprite.body.enable = !dead;
+    this.updateVisibility();
+  }
+  
+  // Dead knights are hidden; invisible ones lose their name and health bar for everyone
+  // else and show up faded for their owner
+  private updateVisibility() {
+    const invisible = this.hasEffect("hidden");
+    this.sprite.setVisible(!this.isDead);
+    this.sprite.setAlpha(invisible && this.isLocalPlayer ? 0.5 : 1);
+    this.nameText.setVisible(!this.isDead && !(invisible && !this.isLocalPlayer));
+    this.healthBar.setVisible(!this.isDead && !(invisible && !this.isLocalPlayer));
+  }
+  
   reset() {
-    this.health = 100;
-    this.scene.events.emit("updateHealth", this.health);
+    this.health = this.maxHealth;
+    if (this.isLocalPlayer) {
+      this.scene.events.emit("updateHealth", this.health, this.maxHealth);
+    }
     
     // Restore original tint
     this.sprite.setTint(this.colorTint);
     
-    // Clear speed boost if active
-    if (this.speedBoostTimer !== null) {
-      this.scene.time.removeEvent(this.speedBoostTimer);
-      this.speedBoostTimer = null;
-    }
+    // Powerups end with the life they were picked up in
+    this.effects = {};
+    this.updateVisibility();
     
     // Reset animation state
     this.isAttacking = false;
@@ -372,15 +540,31 @@ export class Player {
     this.healthBar.fillRect(this.sprite.x - 25, this.sprite.y - 40, 50, 5);
     
     // Draw health amount
-    if (this.health > 60) {
+    const ratio = this.health / this.maxHealth;
+    if (ratio > 0.6) {
       this.healthBar.fillStyle(0x00ff00, 1);
-    } else if (this.health > 30) {
+    } else if (ratio > 0.3) {
       this.healthBar.fillStyle(0xffff00, 1);
     } else {
       this.healthBar.fillStyle(0xff0000, 1);
     }
     
-    const width = Math.max(0, (this.health / 100) * 50);
+    const width = Math.max(0, ratio * 50);
     this.healthBar.fillRect(this.sprite.x - 25, this.sprite.y - 40, width, 5);
+    
+    // Stamina right below it
+    this.healthBar.fillStyle(0x000000, 0.5);
+    this.healthBar.fillRect(this.sprite.x - 25, this.sprite.y - 34, 50, 3);
+    this.healthBar.fillStyle(0xffcc00, 1);
+    this.healthBar.fillRect(this.sprite.x - 25, this.sprite.y - 34, Math.max(0, this.stamina / CombatConfig.maxStamina * 50), 3);
+    
+    // Guard arc covering the half we block from
+    if (this.blocking) {
+      const facing = Phaser.Math.DegToRad(this.facingAngle);
+      this.healthBar.lineStyle(4, 0x66ccff, 0.8);
+      this.healthBar.beginPath();
+      this.healthBar.arc(this.sprite.x, this.sprite.y, 44, facing - Math.PI / 2, facing + Math.PI / 2);
+      this.healthBar.strokePath();
+    }
   }
 }
@@ -1,4 +1,5 @@
 import Phaser from "phaser";
+import { getPowerup } from "../config/PowerupConfig";
 
 export class Powerup {
   public sprite: Phaser.Physics.Arcade.Sprite;
@@ -25,12 +26,8 @@ export class Powerup {
     this.sprite.setData("id", id);
     this.sprite.setData("type", type);
     
-    // Set color based on powerup type
-    if (type === "health") {
-      this.sprite.setTint(0xff0000); // Red for health
-    } else if (type === "speed") {
-      this.sprite.setTint(0x00ffff); // Cyan for speed
-    }
+    // Color comes from the powerup catalog
+    this.sprite.setTint(getPowerup(type).color);
     
     // Add glow effect
     this.glowEffect = scene.add.graphics();
@@ -59,16 +56,8 @@ export class Powerup {
     
     this.glowEffect.clear();
     
-    // Set glow color based on powerup type
-    let color = 0xffffff;
-    if (this.type === "health") {
-      color = 0xff0000; // Red for health
-    } else if (this.type === "speed") {
-      color = 0x00ffff; // Cyan for speed
-    }
-    
     // Draw glow
-    this.glowEffect.fillStyle(color, 0.3);
+    this.glowEffect.fillStyle(getPowerup(this.type).color, 0.3);
     this.glowEffect.fillCircle(this.sprite.x, this.sprite.y, 20);
   }
   
@@ -1,7 +1,120 @@
 import Phaser from "phaser";
+import type { GameServer } from "@agent8/gameserver";
 import { Player } from "../entities/Player";
 import { Powerup } from "../entities/Powerup";
-import { KnightConfig } from "../config/KnightConfig";
+import { Flag } from "../entities/Flag";
+import { CaptureZone } from "../entities/CaptureZone";
+import { CharacterClasses, DefaultCharacterClass } from "../config/CharacterConfig";
+import { CombatConfig } from "../config/CombatConfig";
+import { isTeamMode, TeamColors } from "../config/GameModes";
+import { DefaultMapSize, MapBackgrounds } from "../config/MapConfig";
+import type { MapLayout } from "../config/MapConfig";
+import { MovementConfig } from "../config/MovementConfig";
+import { simulateMovement } from "../systems/Movement";
+import type { MoveInput, ObstacleRect } from "../systems/Movement";
+import type { Snapshot } from "../systems/SnapshotBuffer";
+import { ClockSync } from "../systems/ClockSync";
+import { NetworkStats } from "../systems/NetworkStats";
+import { NetworkConfig } from "../config/NetworkConfig";
+import { getPowerup } from "../config/PowerupConfig";
+import type { ActiveEffectState, PlayerState } from "../types/PlayerState";
+
+// Payload of the server's "attackResolved" broadcast
+interface AttackHit {
+  targetId: string;
+  damage: number;
+  blocked?: number; // Damage stopped by the target's guard
+  dodged?: boolean; // The target was mid-roll and took nothing
+  health: number;
+  killed: boolean;
+}
+
+interface AttackResolvedMessage {
+  id: string;
+  kind: "melee" | "projectile" | "nova";
+  attackerId: string;
+  x?: number;
+  y?: number;
+  angle?: number; // Facing of a melee swing
+  radius?: number;
+  hits: AttackHit[];
+}
+
+// Payload of the server's "abilityUsed" broadcast
+interface AbilityUsedMessage {
+  kind: "dash" | "volley";
+  playerId: string;
+  x: number;
+  y: number;
+  fromX?: number;
+  fromY?: number;
+}
+
+// Payload of the server's "playerDodged" broadcast
+interface PlayerDodgedMessage {
+  playerId: string;
+  x: number;
+  y: number;
+  duration: number; // ms the roll takes
+}
+
+// Projectile as created locally and broadcast by the server
+interface ProjectileData {
+  id: string;
+  x: number;
+  y: number;
+  targetX: number;
+  targetY: number;
+  speed: number;
+  lifetime: number;
+  ownerId: string;
+  ability?: boolean; // Fired by an ability, so even the owner only learns of it from the server
+}
+
+// Capture-the-flag flag as stored in room state
+interface FlagState {
+  team: string;
+  x: number;
+  y: number;
+  status: "home" | "carried" | "dropped";
+  carrierId: string | null;
+}
+
+// King-of-the-hill zone as stored in room state
+interface ZoneState {
+  id: string;
+  x: number;
+  y: number;
+  radius: number;
+  owner: string | null;
+  capturer: string | null;
+  progress: number;
+  contested: boolean;
+}
+
+// Payload of the server's "playerKilled" broadcast
+interface PlayerKilledMessage {
+  playerId: string;
+  killerId: string | null;
+  killerName: string | null;
+  respawnDelay: number;
+}
+
+// Payload of the server's "powerupCollected" broadcast; carries the effect's state changes
+interface PowerupCollectedMessage {
+  id: string;
+  type: string;
+  playerId: string;
+  health?: number;
+  effects?: Record<string, ActiveEffectState>;
+}
+
+// Payload of the server's "playerKicked" broadcast
+interface PlayerKickedMessage {
+  playerId: string;
+  reason: string;
+  byHost?: boolean; // Kicked by the room's host rather than by the anti-cheat
+}
 
 export class GameScene extends Phaser.Scene {
   // Game objects
@@ -9,42 +122,75 @@ export class GameScene extends Phaser.Scene {
   private otherPlayers: Map<string, Player> = new Map();
   private projectiles: Map<string, Phaser.Physics.Arcade.Sprite> = new Map();
   private powerups: Phaser.Physics.Arcade.Group | null = null;
-  private attackHitbox: Phaser.GameObjects.Rectangle | null = null;
-  private hitPlayers: Set<string> = new Set(); // Track which players have been hit by current attack
+  private powerupEntities: Map<string, Powerup> = new Map();
+  private flags: Map<string, Flag> = new Map();
+  private flagStates: Record<string, FlagState> = {};
+  private zones: Map<string, CaptureZone> = new Map();
   
   // Map elements
-  private map!: Phaser.Tilemaps.Tilemap;
+  private background!: Phaser.GameObjects.TileSprite;
   private obstacles!: Phaser.Physics.Arcade.StaticGroup;
+  private obstacleRects: ObstacleRect[] = []; // Same walls the server simulates against
+  private worldWidth: number = DefaultMapSize;
+  private worldHeight: number = DefaultMapSize;
+  private mapApplied: boolean = false;
+  private mapKey: string | null = null; // Id and seed of the room's map, to notice the host switching maps
+  private mapMarkers: Phaser.GameObjects.GameObject[] = []; // Pad and base circles
   
   // Game data
   private playerName: string = "";
   private roomId: string = "";
-  private server: any = null;
-  private lastPositionUpdate: number = 0;
-  private positionUpdateInterval: number = 50; // ms
+  private server: GameServer | null = null;
+  private onKicked: ((reason: string) => void) | null = null;
+  private lastInputSend: number = 0;
+  private clock: ClockSync = new ClockSync();
+  private lastClockSync: number = -Infinity;
+  private network: NetworkStats = new NetworkStats(NetworkConfig.statsWindow);
+  private lastStatsEmit: number = 0;
   private myAccount: string = "";
   private serverInitialized: boolean = false;
   private assetsLoaded: boolean = false;
   private obstaclesCreated: boolean = false;
+  private basesCreated: boolean = false;
+  private life: number | null = null; // Server life counter, bumped on every respawn
+  private spectateTargetId: string | null = null;
+  private mode: string = "ffa";
+  private friendlyFire: boolean = false;
   
   // Player color tracking
   private usedColorIndices: Set<number> = new Set();
   
+  // Client-side prediction: inputs are applied locally right away and kept until
+  // the server acknowledges them, so corrections can be replayed on top
+  private inputSeq: number = 0;
+  private pendingInputs: MoveInput[] = [];
+  private unsentInputs: MoveInput[] = [];
+  private wasMoving: boolean = false;
+  private lastInputAngle: number = 0; // Facing sent with the latest input
+  
   // Input handling
   private spaceKey: Phaser.Input.Keyboard.Key | null = null;
+  private abilityKey: Phaser.Input.Keyboard.Key | null = null;
+  private blockKey: Phaser.Input.Keyboard.Key | null = null;
+  private dodgeKey: Phaser.Input.Keyboard.Key | null = null;
   private attackCooldown: boolean = false;
-  
-  // Track damaged players and their health
-  private damagedPlayers: Map<string, number> = new Map();
+  private fireCooldown: boolean = false;
+  private dodgeCooldown: boolean = false;
+  private blockHeld: boolean = false; // Guard we last asked the server for
+  private energy: number = CombatConfig.maxEnergy;
+  private stamina: number = CombatConfig.maxStamina;
+  private effectsKey: string = "{}"; // Last replicated effects of our own character
+  private abilityReadyAt: number = -1; // Server time our ability is off cooldown; -1 until our state arrives
   
   constructor() {
     super({ key: "GameScene" });
   }
 
-  setGameData(data: { playerName: string; roomId: string; server: any }) {
+  setGameData(data: { playerName: string; roomId: string; server: GameServer; onKicked?: (reason: string) => void }) {
     this.playerName = data.playerName;
     this.roomId = data.roomId;
     this.server = data.server;
+    this.onKicked = data.onKicked || null;
     
     if (this.server && this.server.account) {
       this.myAccount = this.server.account;
@@ -53,50 +199,51 @@ export class GameScene extends Phaser.Scene {
       // Set up subscriptions after server is initialized
       if (this.scene.isActive()) {
         this.setupServerSubscriptions();
-        
-        // Send initial player data
-        this.updatePlayerOnServer();
       }
     }
   }
 
   preload() {
     // Load game assets
-    this.load.spritesheet("knight", KnightConfig.spriteSheet, {
-      frameWidth: KnightConfig.frameWidth,
-      frameHeight: KnightConfig.frameHeight
+    Object.values(CharacterClasses).forEach(characterClass => {
+      this.load.spritesheet(characterClass.texture, characterClass.spriteSheet, {
+        frameWidth: characterClass.frameWidth,
+        frameHeight: characterClass.frameHeight
+      });
     });
     this.load.image("projectile", "https://raw.githubusercontent.com/photonstorm/phaser3-examples/master/public/assets/sprites/bullets/bullet7.png");
     this.load.image("powerup", "https://raw.githubusercontent.com/photonstorm/phaser3-examples/master/public/assets/sprites/orb-red.png");
     this.load.image("obstacle", "https://raw.githubusercontent.com/photonstorm/phaser3-examples/master/public/assets/sprites/block.png");
-    this.load.image("background", "https://raw.githubusercontent.com/photonstorm/phaser3-examples/master/public/assets/skies/space3.png");
+    Object.entries(MapBackgrounds).forEach(([key, url]) => {
+      this.load.image(`background-${key}`, url);
+    });
   }
 
   create() {
-    // Create background
-    this.add.tileSprite(0, 0, 2000, 2000, "background").setOrigin(0, 0);
+    // Create background (resized once the room's map is known)
+    this.background = this.add.tileSprite(0, 0, this.worldWidth, this.worldHeight, "background-space").setOrigin(0, 0);
     
     // Create game world bounds
-    this.physics.world.setBounds(0, 0, 2000, 2000);
+    this.physics.world.setBounds(0, 0, this.worldWidth, this.worldHeight);
     
     // Initialize obstacles - will be created after receiving server data
     this.obstacles = this.physics.add.staticGroup();
     
-    // Create knight animations
-    this.createKnightAnimations();
+    // Create the animations of every class
+    this.createCharacterAnimations();
     
-    // Create player
+    // Create player (switched to the chosen class once our state arrives)
     this.player = new Player(
       this,
-      Phaser.Math.Between(100, 1900),
-      Phaser.Math.Between(100, 1900),
-      "knight",
+      Phaser.Math.Between(100, this.worldWidth - 100),
+      Phaser.Math.Between(100, this.worldHeight - 100),
+      DefaultCharacterClass,
       this.playerName,
       this.myAccount
     );
     
     // Setup camera to follow player
-    this.cameras.main.setBounds(0, 0, 2000, 2000);
+    this.cameras.main.setBounds(0, 0, this.worldWidth, this.worldHeight);
     this.cameras.main.startFollow(this.player.sprite, true, 0.09, 0.09);
     this.cameras.main.setZoom(1);
     
@@ -109,57 +256,40 @@ export class GameScene extends Phaser.Scene {
     // Set up server subscriptions if server is already initialized
     if (this.serverInitialized) {
       this.setupServerSubscriptions();
-      
-      // Send initial player data
-      this.updatePlayerOnServer();
     }
     
-    // Add help text
-    this.add.text(16, 16, "Use arrow keys or WASD to move, SPACE to attack", {
+    // Add help text (bottom left, below the HUD)
+    this.add.text(16, 540, [
+      "Use arrow keys or WASD to move, SPACE to attack, click to shoot, Q for your ability",
+      "Hold F to block, SHIFT to dodge, M for mouse aim"
+    ], {
       fontSize: "18px",
       color: "#ffffff",
       backgroundColor: "#000000",
       padding: { x: 10, y: 5 }
     }).setScrollFactor(0).setDepth(100);
     
+    // Start the HUD scene on top of the game
+    this.scene.launch("UIScene");
+    
     // Mark assets as loaded
     this.assetsLoaded = true;
   }
 
-  private createKnightAnimations() {
-    const { animations } = KnightConfig;
-    
-    // Create idle animation
-    this.anims.create({
-      key: animations.idle.key,
-      frames: this.anims.generateFrameNumbers("knight", {
-        start: animations.idle.frames.start,
-        end: animations.idle.frames.end
-      }),
-      frameRate: animations.idle.frameRate,
-      repeat: animations.idle.repeat
-    });
-    
-    // Create walk animation
-    this.anims.create({
-      key: animations.walk.key,
-      frames: this.anims.generateFrameNumbers("knight", {
-        start: animations.walk.frames.start,
-        end: animations.walk.frames.end
-      }),
-      frameRate: animations.walk.frameRate,
-      repeat: animations.walk.repeat
-    });
-    
-    // Create attack animation
-    this.anims.create({
-      key: animations.attack.key,
-      frames: this.anims.generateFrameNumbers("knight", {
-        start: animations.attack.frames.start,
-        end: animations.attack.frames.end
-      }),
-      frameRate: animations.attack.frameRate,
-      repeat: animations.attack.repeat
+  private createCharacterAnimations() {
+    Object.values(CharacterClasses).forEach(({ texture, animations }) => {
+      // Idle, walk and attack animations from the class's sheet
+      Object.values(animations).forEach(animation => {
+        this.anims.create({
+          key: animation.key,
+          frames: this.anims.generateFrameNumbers(texture, {
+            start: animation.frames.start,
+            end: animation.frames.end
+          }),
+          frameRate: animation.frameRate,
+          repeat: animation.repeat
+        });
+      });
     });
   }
 
@@ -167,28 +297,76 @@ export class GameScene extends Phaser.Scene {
     if (!this.server || !this.roomId) return;
     
     // Subscribe to projectile creation events
-    this.server.onRoomMessage(this.roomId, "projectileFired", this.handleProjectileFired.bind(this));
+    this.onRoomMessage("projectileFired", this.handleProjectileFired.bind(this));
+    
+    // Subscribe to server-resolved attacks
+    this.onRoomMessage("attackResolved", this.handleAttackResolved.bind(this));
+    
+    // Subscribe to class abilities
+    this.onRoomMessage("abilityUsed", this.handleAbilityUsed.bind(this));
+    
+    // Subscribe to dodge rolls
+    this.onRoomMessage("playerDodged", this.handlePlayerDodged.bind(this));
+    
+    // Subscribe to deaths
+    this.onRoomMessage("playerKilled", this.handlePlayerKilled.bind(this));
+    
+    // Subscribe to kicks, by the anti-cheat or the host
+    this.onRoomMessage("playerKicked", this.handlePlayerKicked.bind(this));
     
     // Subscribe to powerup creation events
-    this.server.onRoomMessage(this.roomId, "powerupSpawned", this.handlePowerupSpawned.bind(this));
+    this.onRoomMessage("powerupSpawned", this.handlePowerupSpawned.bind(this));
     
-    // Subscribe to room state for obstacles
+    // Subscribe to pickups, which the server detects
+    this.onRoomMessage("powerupCollected", this.handlePowerupCollected.bind(this));
+    
+    // Subscribe to room state for the map and obstacles
     this.server.subscribeRoomState(this.roomId, (state: any) => {
-      if (state && state.obstacles && !this.obstaclesCreated) {
+      this.resetMapIfChanged(state);
+      if (state && state.map && !this.mapApplied && this.assetsLoaded) {
+        this.applyMapLayout(state.map);
+      }
+      if (state && state.obstacles && !this.obstaclesCreated && this.mapApplied) {
         this.createObstaclesFromServer(state.obstacles);
       }
     });
   }
+  
+  // Room message subscription that also counts the incoming traffic
+  private onRoomMessage<T>(type: string, handler: (message: T) => void) {
+    this.server.onRoomMessage(this.roomId, type, (message: T) => {
+      this.network.record("in", type, message);
+      handler(message);
+    });
+  }
+  
+  // Remote function call that also counts the outgoing traffic
+  private callServer(name: string, args: unknown[]) {
+    this.network.record("out", name, args);
+    return this.server.remoteFunction(name, args);
+  }
+
+  // Short ids for our attacks and projectiles. The server knows who sent them, so the account
+  // is left out to stay within its id length limit; the random part keeps them unique across players
+  private createEventId(kind: string) {
+    return `${kind}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
 
   update(time: number, delta: number) {
     // Update player
     if (this.player) {
       this.player.update();
+      this.predictMovement(delta);
+      
+      // Send queued inputs, more often while other players are close enough to see us
+      if (this.serverInitialized && time - this.lastInputSend > this.getInputSendInterval()) {
+        this.sendInputs();
+      }
       
-      // Send position updates at fixed intervals
-      if (this.serverInitialized && time - this.lastPositionUpdate > this.positionUpdateInterval) {
-        this.updatePlayerOnServer();
-        this.lastPositionUpdate = time;
+      // Keep the server clock estimate fresh for attack timestamps
+      if (this.serverInitialized && time - this.lastClockSync > NetworkConfig.clockSyncInterval) {
+        this.lastClockSync = time;
+        this.clock.sync(this.server).catch((error: unknown) => console.error("Error syncing clock:", error));
       }
       
       // Check for spacebar attack
@@ -196,39 +374,45 @@ export class GameScene extends Phaser.Scene {
         this.handleSpacebarAttack();
       }
       
-      // Check for hitbox collisions with other players
-      if (this.attackHitbox) {
-        this.otherPlayers.forEach((otherPlayer, id) => {
-          // Skip players that have already been hit by this attack
-          if (this.hitPlayers.has(id)) return;
-          
-          const hitboxBounds = this.attackHitbox?.getBounds();
-          const playerBounds = otherPlayer.sprite.getBounds();
-          
-          if (Phaser.Geom.Rectangle.Overlaps(hitboxBounds, playerBounds)) {
-            // Register this player as hit to prevent multiple hits from same attack
-            this.hitPlayers.add(id);
-            
-            console.log(`Hitbox collision detected with player: ${id}`);
-            
-            // Process the hit
-            this.handlePlayerHit(id, this.myAccount, "melee_attack");
-          }
-        });
+      if (this.abilityKey && Phaser.Input.Keyboard.JustDown(this.abilityKey)) {
+        this.handleAbility();
+      }
+      
+      // Hold F to block, SHIFT to roll
+      const blockHeld = !!this.blockKey?.isDown && !this.player.isDead;
+      if (blockHeld !== this.blockHeld) {
+        this.handleBlock(blockHeld);
+      }
+      if (this.dodgeKey && Phaser.Input.Keyboard.JustDown(this.dodgeKey) && !this.dodgeCooldown) {
+        this.handleDodge();
       }
     }
     
     // Update other players
     this.otherPlayers.forEach(player => player.update());
     
+    // Keep carried flags on their carriers
+    this.positionFlags();
+    
+    // Feed the network overlay
+    if (time - this.lastStatsEmit > 1000) {
+      this.lastStatsEmit = time;
+      this.events.emit("updateNetworkStats", this.network.getSummary());
+    }
+    
     // Update projectiles
     this.projectiles.forEach((projectile, id) => {
-      // Check for projectile collisions with players
-      if (this.player && projectile.getData("ownerId") !== this.myAccount) {
-        if (this.physics.overlap(projectile, this.player.sprite)) {
-          this.handlePlayerHit(this.myAccount, projectile.getData("ownerId"), id);
-          projectile.destroy();
-          this.projectiles.delete(id);
+      // The shooter reports hits on what they see; the server rewinds the target to check.
+      // Other players' projectiles only disappear once the server resolves them
+      if (projectile.getData("ownerId") === this.myAccount) {
+        for (const [playerId, other] of this.otherPlayers) {
+          if (other.isDead || this.isTeammate(playerId)) continue;
+          if (this.physics.overlap(projectile, other.sprite)) {
+            this.handlePlayerHit(playerId, id);
+            projectile.destroy();
+            this.projectiles.delete(id);
+            return;
+          }
         }
       }
       
@@ -240,7 +424,7 @@ export class GameScene extends Phaser.Scene {
       
       // Remove projectiles that have exceeded their lifetime
       const creationTime = projectile.getData("creationTime");
-      if (Date.now() - creationTime > 2000) { // 2 seconds lifetime
+      if (Date.now() - creationTime > projectile.getData("lifetime")) {
         projectile.destroy();
         this.projectiles.delete(id);
       }
@@ -262,16 +446,23 @@ export class GameScene extends Phaser.Scene {
       
       // Create obstacles from server data
       if (Array.isArray(obstacleData)) {
+        this.obstacleRects = obstacleData.filter(data => data && data.x !== undefined && data.y !== undefined);
+
         obstacleData.forEach(data => {
           if (data && data.x !== undefined && data.y !== undefined) {
             const obstacle = this.obstacles.create(data.x, data.y, "obstacle");
+            
+            // Generated walls come in different sizes
+            if (data.width && data.height) {
+              obstacle.setDisplaySize(data.width, data.height);
+            }
             obstacle.refreshBody();
           }
         });
       }
       
-      // Set up collision between player and obstacles
-      this.physics.add.collider(this.player.sprite, this.obstacles);
+      // The local player is not given a collider: its movement is simulated against
+      // obstacleRects exactly like on the server
       
       // Set up collision between other players and obstacles
       this.otherPlayers.forEach(player => {
@@ -287,21 +478,87 @@ export class GameScene extends Phaser.Scene {
   // Create border obstacles (identical on all clients)
   private createBorderObstacles() {
     // Create border walls
-    for (let i = 0; i < 2000; i += 50) {
+    for (let i = 0; i < this.worldWidth; i += 50) {
       this.obstacles.create(i, 0, "obstacle").refreshBody();
-      this.obstacles.create(i, 2000, "obstacle").refreshBody();
+      this.obstacles.create(i, this.worldHeight, "obstacle").refreshBody();
+    }
+    for (let i = 0; i < this.worldHeight; i += 50) {
       this.obstacles.create(0, i, "obstacle").refreshBody();
-      this.obstacles.create(2000, i, "obstacle").refreshBody();
+      this.obstacles.create(this.worldWidth, i, "obstacle").refreshBody();
     }
   }
+  
+  // Size the world, camera and background to the room's map
+  private applyMapLayout(layout: MapLayout) {
+    this.worldWidth = layout.width;
+    this.worldHeight = layout.height;
+    
+    const backgroundKey = MapBackgrounds[layout.background] ? layout.background : "space";
+    this.background.setTexture(`background-${backgroundKey}`);
+    this.background.setSize(this.worldWidth, this.worldHeight);
+    
+    this.physics.world.setBounds(0, 0, this.worldWidth, this.worldHeight);
+    this.cameras.main.setBounds(0, 0, this.worldWidth, this.worldHeight);
+    
+    // Powerup pads are marked so players know where to come back for a refill
+    (layout.powerupPads || []).forEach(pad => {
+      this.mapMarkers.push(
+        this.add.circle(pad.x, pad.y, 28, 0xffffff, 0.08).setStrokeStyle(2, 0xffffff, 0.4).setDepth(1)
+      );
+    });
+    
+    this.mapApplied = true;
+  }
+  
+  // The host can switch maps between rounds; tear the old one down so it gets rebuilt
+  // from the new layout like on joining
+  private resetMapIfChanged(roomState: { map?: MapLayout; mapSeed?: number | null } | null) {
+    if (!roomState?.map) return;
+    
+    const key = `${roomState.map.id}:${roomState.mapSeed ?? ""}`;
+    if (this.mapApplied && this.mapKey !== key) {
+      this.obstacles.clear(true, true);
+      this.obstacleRects = [];
+      this.mapMarkers.forEach(marker => marker.destroy());
+      this.mapMarkers = [];
+      this.zones.forEach(zone => zone.destroy());
+      this.zones.clear();
+      this.mapApplied = false;
+      this.obstaclesCreated = false;
+      this.basesCreated = false;
+    }
+    this.mapKey = key;
+  }
 
   private setupInput() {
     // Set up spacebar for attacks
     this.spaceKey = this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE);
+    
+    // Set up Q for the class ability
+    this.abilityKey = this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.Q);
+    
+    // Set up F to block and SHIFT to dodge
+    this.blockKey = this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.F);
+    this.dodgeKey = this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.SHIFT);
+    
+    // M toggles aiming with the mouse instead of facing the way we move
+    this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.M).on("down", () => {
+      this.player.setMouseAim(!this.player.isMouseAim());
+    });
+    
+    // Set up left click for ranged attacks
+    this.input.on("pointerdown", (pointer: Phaser.Input.Pointer) => {
+      if (pointer.leftButtonDown()) {
+        this.handleProjectileAttack(pointer.worldX, pointer.worldY);
+      }
+    });
   }
   
   private handleSpacebarAttack() {
-    if (!this.player || !this.serverInitialized) return;
+    if (!this.player || !this.serverInitialized || this.player.isDead) return;
+    
+    // Skip swings the server would reject anyway
+    if (this.player.isBlocking() || this.stamina < CombatConfig.meleeStaminaCost) return;
     
     // Set attack cooldown
     this.attackCooldown = true;
@@ -309,76 +566,144 @@ export class GameScene extends Phaser.Scene {
     // Play attack animation
     this.player.playAttackAnimation();
     
-    // Get player direction
-    const playerSprite = this.player.sprite;
-    const direction = playerSprite.flipX ? -1 : 1;
-    
-    // Clear hit players set for new attack
-    this.hitPlayers.clear();
-    
-    // Create hitbox in front of player
-    this.createAttackHitbox(direction);
+    // The server swings toward our replicated facing, so make sure it has the latest one
+    this.sendInputs();
     
-    // Send attack data to server
+    // Send attack to server, which resolves the hits against the world as we saw it
+    const playerSprite = this.player.sprite;
     const attackData = {
-      id: `attack_${this.myAccount}_${Date.now()}`,
+      id: this.createEventId("attack"),
       x: playerSprite.x,
       y: playerSprite.y,
-      direction: direction,
+      angle: this.player.getFacingAngle(),
       ownerId: this.myAccount,
-      ownerName: this.playerName
+      ownerName: this.playerName,
+      timestamp: this.getViewTimestamp()
     };
     
-    this.server.remoteFunction("playerAttack", [attackData]);
+    this.callServer("playerAttack", [attackData]);
     
     // Reset cooldown after a short delay
-    this.time.delayedCall(500, () => {
+    this.time.delayedCall(this.player.getCharacterClass().melee.cooldown, () => {
       this.attackCooldown = false;
     });
   }
   
-  private createAttackHitbox(direction: number) {
-    // Remove existing hitbox if any
-    if (this.attackHitbox) {
-      this.attackHitbox.destroy();
-    }
+  private async handleProjectileAttack(targetX: number, targetY: number) {
+    if (!this.player || !this.serverInitialized || this.fireCooldown || this.player.isDead) return;
     
-    const playerSprite = this.player.sprite;
-    const hitboxWidth = 80;
-    const hitboxHeight = 60;
-    
-    // Position hitbox in front of player based on direction
-    const hitboxX = playerSprite.x + (direction * (playerSprite.width / 2 + hitboxWidth / 2));
-    const hitboxY = playerSprite.y;
-    
-    // Create hitbox
-    this.attackHitbox = this.add.rectangle(
-      hitboxX,
-      hitboxY,
-      hitboxWidth,
-      hitboxHeight,
-      0xff0000,
-      0.3 // Semi-transparent for debugging
-    );
+    // Skip shots the server would reject anyway
+    const { ranged } = this.player.getCharacterClass();
+    if (this.energy < ranged.energyCost) return;
     
-    // Make hitbox visible only in debug mode
-    this.attackHitbox.setVisible(false);
+    this.fireCooldown = true;
+    this.time.delayedCall(ranged.fireInterval * this.player.getEffectModifier("fireIntervalMultiplier"), () => {
+      this.fireCooldown = false;
+    });
     
-    // Set depth to ensure hitbox is above background
-    this.attackHitbox.setDepth(15);
+    // Create the projectile locally right away
+    const projectileData: ProjectileData = {
+      id: this.createEventId("projectile"),
+      x: this.player.sprite.x,
+      y: this.player.sprite.y,
+      targetX,
+      targetY,
+      speed: ranged.speed,
+      lifetime: ranged.lifetime,
+      ownerId: this.myAccount
+    };
+    this.createProjectile(projectileData);
     
-    // Remove hitbox after attack animation duration
-    this.time.delayedCall(300, () => {
-      if (this.attackHitbox) {
-        this.attackHitbox.destroy();
-        this.attackHitbox = null;
+    try {
+      const result = await this.callServer("fireProjectile", [projectileData]);
+      
+      // Remove the local projectile if the server rejected the shot
+      if (result !== "success" && this.projectiles.has(projectileData.id)) {
+        this.projectiles.get(projectileData.id)?.destroy();
+        this.projectiles.delete(projectileData.id);
       }
+    } catch (error) {
+      console.error("Error firing projectile:", error);
+    }
+  }
+  
+  // The server decides whether the guard goes up; our state tells us when it does
+  private handleBlock(blocking: boolean) {
+    this.blockHeld = blocking;
+    if (!this.serverInitialized) return;
+    this.callServer("setBlocking", [{ blocking }]);
+  }
+  
+  // The server moves us; the roll plays when it broadcasts the dodge
+  private async handleDodge() {
+    if (!this.player || !this.serverInitialized || this.player.isDead) return;
+    if (this.stamina < CombatConfig.dodge.staminaCost) return;
+    
+    this.dodgeCooldown = true;
+    this.time.delayedCall(CombatConfig.dodge.cooldown, () => {
+      this.dodgeCooldown = false;
     });
     
-    return this.attackHitbox;
+    // Roll the way we are moving, or the way we face when standing still
+    this.sendInputs();
+    const move = this.player.getMoveInput();
+    try {
+      await this.callServer("dodge", [{ moveX: move.x, moveY: move.y }]);
+    } catch (error) {
+      console.error("Error dodging:", error);
+    }
   }
-
-  private handleProjectileFired(data: any) {
+  
+  private handlePlayerDodged(data: PlayerDodgedMessage) {
+    if (!this.scene.isActive() || !data) return;
+    
+    const player = data.playerId === this.myAccount ? this.player : this.otherPlayers.get(data.playerId);
+    player?.roll(data.duration);
+  }
+  
+  // The server checks the cooldown and resolves the effect; dashes move us through our state
+  private async handleAbility() {
+    if (!this.player || !this.serverInitialized || this.player.isDead) return;
+    if (this.clock.serverNow() < this.abilityReadyAt) return;
+    
+    // Dashes follow our facing, which the server only knows from our inputs
+    this.sendInputs();
+    
+    const pointer = this.input.activePointer;
+    try {
+      await this.callServer("useAbility", [{
+        timestamp: this.getViewTimestamp(),
+        targetX: pointer.worldX,
+        targetY: pointer.worldY
+      }]);
+    } catch (error) {
+      console.error("Error using ability:", error);
+    }
+  }
+  
+  private handleAbilityUsed(data: AbilityUsedMessage) {
+    if (!this.scene.isActive() || !data) return;
+    
+    const caster = data.playerId === this.myAccount ? this.player : this.otherPlayers.get(data.playerId);
+    if (!caster) return;
+    
+    if (data.kind === "dash" && data.fromX !== undefined && data.fromY !== undefined) {
+      // Streak along the dash path
+      const streak = this.add.graphics().setDepth(4);
+      streak.lineStyle(24, 0xffffff, 0.35);
+      streak.lineBetween(data.fromX, data.fromY, data.x, data.y);
+      this.tweens.add({
+        targets: streak,
+        alpha: 0,
+        duration: 300,
+        onComplete: () => streak.destroy()
+      });
+    } else {
+      caster.playAttackAnimation();
+    }
+  }
+  
+  private handleProjectileFired(data: ProjectileData) {
     // Check if necessary objects are initialized before creating projectile
     if (!this.scene.isActive() || !this.physics) {
       console.warn("Scene not active or physics not initialized when handling projectile");
@@ -386,7 +711,7 @@ export class GameScene extends Phaser.Scene {
     }
     
     // Don't create projectiles fired by this player (already created locally)
-    if (data.ownerId === this.myAccount) return;
+    if (data.ownerId === this.myAccount && !data.ability) return;
     
     try {
       this.createProjectile(data);
@@ -395,8 +720,8 @@ export class GameScene extends Phaser.Scene {
     }
   }
   
-  private createProjectile(data: any) {
-    const { x, y, targetX, targetY, id, ownerId } = data;
+  private createProjectile(data: ProjectileData) {
+    const { x, y, targetX, targetY, id, ownerId, speed, lifetime } = data;
     
     // Create sprite
     const projectile = this.physics.add.sprite(x, y, "projectile");
@@ -404,13 +729,13 @@ export class GameScene extends Phaser.Scene {
     projectile.setData("id", id);
     projectile.setData("ownerId", ownerId);
     projectile.setData("creationTime", Date.now());
+    projectile.setData("lifetime", lifetime);
     
     // Calculate angle and velocity
     const angle = Phaser.Math.Angle.Between(x, y, targetX, targetY);
     projectile.setRotation(angle);
     
     // Set velocity based on angle
-    const speed = 500;
     this.physics.velocityFromRotation(angle, speed, projectile.body.velocity);
     
     // Add visual trail effect using simple graphics instead of particles
@@ -456,136 +781,401 @@ export class GameScene extends Phaser.Scene {
     }
     
     try {
-      const powerup = new Powerup(
-        this,
-        data.x,
-        data.y,
-        "powerup",
-        data.id,
-        data.type
-      );
-      
-      if (powerup && powerup.sprite) {
-        this.powerups.add(powerup.sprite);
-      }
+      this.addPowerup(data);
     } catch (error) {
       console.error("Error creating powerup:", error);
     }
   }
-
-  private collectPowerup(playerSprite: Phaser.Physics.Arcade.Sprite, powerupSprite: Phaser.Physics.Arcade.Sprite) {
-    if (!powerupSprite) return;
+  
+  private addPowerup(data: { id: string; type: string; x: number; y: number }) {
+    if (!this.powerups || this.powerupEntities.has(data.id)) return;
     
-    const powerupId = powerupSprite.getData("id");
-    const powerupType = powerupSprite.getData("type");
+    const powerup = new Powerup(
+      this,
+      data.x,
+      data.y,
+      "powerup",
+      data.id,
+      data.type
+    );
     
-    // Apply powerup effect
-    if (powerupType === "health") {
-      this.player.heal(25);
-    } else if (powerupType === "speed") {
-      this.player.applySpeedBoost(5000); // 5 seconds
+    if (powerup && powerup.sprite) {
+      this.powerups.add(powerup.sprite);
+      this.powerupEntities.set(data.id, powerup);
     }
+  }
+
+  // The server detects pickups and applies their effects; we only play them back
+  private handlePowerupCollected(data: PowerupCollectedMessage) {
+    if (!this.scene.isActive() || !data) return;
     
-    // Remove powerup
-    powerupSprite.destroy();
+    this.powerupEntities.get(data.id)?.destroy();
+    this.powerupEntities.delete(data.id);
     
-    // Notify server if initialized
-    if (this.serverInitialized) {
-      this.server.remoteFunction("collectPowerup", [powerupId]);
+    const target = data.playerId === this.myAccount ?
+      this.player :
+      this.otherPlayers.get(data.playerId);
+    if (!target) return;
+    
+    // Timed effects arrive with the player's state; here we only play the pickup
+    if (data.health !== undefined) {
+      target.heal(data.health - target.health);
+      target.setHealth(data.health);
+    } else {
+      target.flash(getPowerup(data.type).color);
     }
   }
-
-  private handlePlayerHit(targetId: string, attackerId: string, projectileId: string) {
-    console.log(`Player hit: targetId=${targetId}, attackerId=${attackerId}, projectileId=${projectileId}`);
-    
-    // Apply damage locally
-    if (targetId === this.myAccount) {
-      console.log(`Local player hit. Current health: ${this.player.health}`);
-      this.player.damage(10);
-      console.log(`New health: ${this.player.health}`);
-      
-      // Check if player died
-      if (this.player.health <= 0) {
-        this.handlePlayerDeath(targetId, attackerId);
-      }
-    } else if (this.otherPlayers.has(targetId)) {
-      console.log(`Other player hit: ${targetId}. Exists: ${this.otherPlayers.has(targetId)}`);
-      const targetPlayer = this.otherPlayers.get(targetId);
-      if (targetPlayer) {
-        console.log(`Other player health before damage: ${targetPlayer.health}`);
-        targetPlayer.damage(10);
-        
-        // Store the damaged player's new health
-        this.damagedPlayers.set(targetId, targetPlayer.health);
-        
-        console.log(`Other player health after damage: ${targetPlayer.health}`);
-        console.log(`Stored in damagedPlayers: ${this.damagedPlayers.get(targetId)}`);
+  
+  // Server effect expiry times converted to our clock. Our own effects also change
+  // prediction (speed) and the fire rate, so they end when the server's do
+  private toLocalEffects(effects: Record<string, ActiveEffectState> | undefined): Record<string, number> {
+    const offset = Date.now() - this.clock.serverNow();
+    const local: Record<string, number> = {};
+    Object.entries(effects || {}).forEach(([type, effect]) => {
+      if (effect && effect.until + offset > Date.now()) {
+        local[type] = effect.until + offset;
       }
-    }
-    
-    // Notify server if initialized
+    });
+    return local;
+  }
+
+  private handlePlayerHit(targetId: string, projectileId: string) {
+    // Report the hit; the server applies damage and broadcasts the result
     if (this.serverInitialized) {
-      this.server.remoteFunction("playerHit", [
+      this.callServer("playerHit", [
         {
           targetId,
-          attackerId,
           projectileId,
-          damage: 10
+          timestamp: this.getViewTimestamp()
         }
       ]);
     }
   }
+  
+  // Server time of the world we are looking at: remote players are drawn from state that
+  // took one-way latency to arrive and is rendered a further interpolation delay behind
+  private getViewTimestamp(): number {
+    return this.clock.serverNow() - this.clock.getLatency() - NetworkConfig.interpolationDelay;
+  }
 
-  private handlePlayerDeath(playerId: string, killerId: string) {
-    if (playerId === this.myAccount) {
-      // Respawn player
-      this.player.sprite.setPosition(
-        Phaser.Math.Between(100, 1900),
-        Phaser.Math.Between(100, 1900)
-      );
-      this.player.reset();
+  private handleAttackResolved(data: AttackResolvedMessage) {
+    if (!this.scene.isActive() || !data) return;
+    
+    // Projectile hits are resolved once, so remove the projectile everywhere
+    if (data.kind === "projectile" && this.projectiles.has(data.id)) {
+      this.projectiles.get(data.id)?.destroy();
+      this.projectiles.delete(data.id);
+    }
+    
+    // Expanding ring for area attacks
+    if (data.kind === "nova" && data.x !== undefined && data.y !== undefined && data.radius) {
+      const ring = this.add.circle(data.x, data.y, data.radius, 0x88ccff, 0.25)
+        .setStrokeStyle(3, 0xbbe6ff, 0.9)
+        .setDepth(4)
+        .setScale(0.2);
+      this.tweens.add({
+        targets: ring,
+        scale: 1,
+        alpha: 0,
+        duration: 400,
+        onComplete: () => ring.destroy()
+      });
+    }
+    
+    (data.hits || []).forEach(hit => {
+      const target = hit.targetId === this.myAccount ?
+        this.player :
+        this.otherPlayers.get(hit.targetId);
+      if (!target) return;
       
-      // Notify server if initialized
-      if (this.serverInitialized) {
-        this.server.remoteFunction("playerDied", [
-          {
-            playerId,
-            killerId
-          }
-        ]);
+      // Play hit feedback, then take the server's health value; fully blocked or
+      // dodged hits only flash
+      if (hit.damage > 0) {
+        target.damage(hit.damage);
+      } else if (hit.dodged || hit.blocked) {
+        target.flash(0x66ccff);
       }
+      target.setHealth(hit.health);
+    });
+  }
+
+  private handlePlayerKilled(data: PlayerKilledMessage) {
+    if (!this.scene.isActive() || !data) return;
+    
+    if (data.playerId === this.myAccount) {
+      this.handlePlayerDeath(data.killerId, data.killerName, data.respawnDelay);
+    } else {
+      this.otherPlayers.get(data.playerId)?.setDead(true);
     }
   }
 
-  private updatePlayerOnServer() {
-    if (!this.player || !this.serverInitialized || !this.server) return;
+  private handlePlayerKicked(data: PlayerKickedMessage) {
+    if (!data) return;
     
-    const playerData = {
-      x: this.player.sprite.x,
-      y: this.player.sprite.y,
-      angle: this.player.sprite.angle,
-      health: this.player.health,
-      name: this.playerName
+    // The anti-cheat already removed us from the room, but only we can leave it when the
+    // host kicks us; other kicked players vanish with their state
+    if (data.playerId !== this.myAccount) return;
+    if (data.byHost) {
+      this.server.remoteFunction("leaveRoom", [])
+        .catch((error: unknown) => console.error("Error leaving room:", error))
+        .finally(() => this.onKicked?.(data.reason));
+    } else {
+      this.onKicked?.(data.reason);
+    }
+  }
+
+  private handlePlayerDeath(killerId: string | null, killerName: string | null, respawnDelay: number) {
+    if (this.player.isDead) return;
+    
+    this.player.setDead(true);
+    this.pendingInputs = [];
+    this.unsentInputs = [];
+    
+    // Spectate the killer until we respawn
+    const killer = killerId ? this.otherPlayers.get(killerId) : undefined;
+    if (killer) {
+      this.spectateTargetId = killerId;
+      this.cameras.main.startFollow(killer.sprite, true, 0.09, 0.09);
+    }
+    
+    this.events.emit("playerDied", { killerName, respawnDelay });
+  }
+
+  private handlePlayerRespawn(x: number, y: number) {
+    // The server picked the spawn point, so move there and come back to life
+    this.player.sprite.setPosition(x, y);
+    this.player.setDead(false);
+    this.pendingInputs = [];
+    this.unsentInputs = [];
+    this.wasMoving = false;
+    this.player.reset();
+    
+    this.spectateTargetId = null;
+    this.cameras.main.startFollow(this.player.sprite, true, 0.09, 0.09);
+    
+    this.events.emit("playerRespawned");
+  }
+
+  // Apply this frame's input locally and queue it for the server
+  private predictMovement(delta: number) {
+    const move = this.player.getMoveInput();
+    const moving = move.x !== 0 || move.y !== 0;
+    const angle = this.player.getFacingAngle();
+    
+    // Idle frames are not sent, except one empty input so the server knows we stopped
+    // and ones where we turned on the spot (mouse aim)
+    if (this.player.isDead || this.life === null || (!moving && !this.wasMoving && angle === this.lastInputAngle)) return;
+    this.wasMoving = moving;
+    this.lastInputAngle = angle;
+    
+    const input: MoveInput = {
+      seq: ++this.inputSeq,
+      moveX: move.x,
+      moveY: move.y,
+      duration: moving ? Math.round(Math.min(delta, MovementConfig.maxInputDuration)) : 0,
+      angle
     };
     
-    this.server.remoteFunction(
-      "updatePlayerPosition",
-      [playerData],
-      { throttle: 50 }
+    const next = simulateMovement(this.player.sprite, input, this.player.getMoveSpeed(), this.obstacleRects, this.getWorldBounds());
+    this.player.sprite.setPosition(next.x, next.y);
+    
+    this.pendingInputs.push(input);
+    this.unsentInputs.push(input);
+  }
+  
+  // Inputs queued within NetworkConfig.minSendGap of the last batch wait for the next one
+  private sendInputs() {
+    if (!this.server || this.unsentInputs.length === 0) return;
+    if (this.time.now - this.lastInputSend < NetworkConfig.minSendGap) return;
+    this.lastInputSend = this.time.now;
+    
+    // Not throttled: every input has to reach the server for replays to line up, so a
+    // rejected batch goes back in front of the queue unless we died or respawned since
+    const life = this.life;
+    const inputs = this.unsentInputs;
+    this.unsentInputs = [];
+    this.callServer("submitInputs", [{ life, inputs }]).catch((error: unknown) => {
+      console.error("Error sending inputs:", error);
+      if (life === this.life && !this.player.isDead) this.unsentInputs = [...inputs, ...this.unsentInputs];
+    });
+  }
+  
+  private getInputSendInterval(): number {
+    const nearby = Array.from(this.otherPlayers.values()).some(other =>
+      !other.isDead &&
+      Phaser.Math.Distance.Between(other.sprite.x, other.sprite.y, this.player.sprite.x, this.player.sprite.y) < NetworkConfig.nearDistance
     );
+    return nearby ? NetworkConfig.sendIntervalNear : NetworkConfig.sendIntervalFar;
+  }
+  
+  // Start from the server's position and replay the inputs it has not processed yet
+  private reconcile(serverX: number, serverY: number, ackedSeq: number) {
+    this.pendingInputs = this.pendingInputs.filter(input => input.seq > ackedSeq);
+    
+    let position = { x: serverX, y: serverY };
+    const speed = this.player.getMoveSpeed();
+    const bounds = this.getWorldBounds();
+    this.pendingInputs.forEach(input => {
+      position = simulateMovement(position, input, speed, this.obstacleRects, bounds);
+    });
+    
+    // Only correct when prediction actually diverged
+    const sprite = this.player.sprite;
+    if (Phaser.Math.Distance.Between(position.x, position.y, sprite.x, sprite.y) > 0.5) {
+      sprite.setPosition(position.x, position.y);
+    }
+  }
+  
+  // Replicated movement state of a remote player, stamped with the local receive time
+  private toSnapshot(playerState: PlayerState): Snapshot {
+    return {
+      time: this.time.now,
+      x: playerState.x ?? 0,
+      y: playerState.y ?? 0,
+      angle: playerState.angle ?? 0,
+      anim: playerState.anim ?? "idle",
+      attackAt: playerState.lastAttackAt ?? 0
+    };
+  }
+  
+  private getWorldBounds() {
+    return { width: this.worldWidth, height: this.worldHeight };
+  }
+
+  // Whether hits from this player should be ignored (ourselves, or a teammate without friendly fire)
+  private isTeammate(playerId: string): boolean {
+    if (playerId === this.myAccount) return true;
+    if (!isTeamMode(this.mode) || this.friendlyFire) return false;
+    
+    const other = this.otherPlayers.get(playerId);
+    return !!other && !!this.player.team && other.team === this.player.team;
   }
 
   updateRoomState(roomState: any) {
+    this.network.record("in", "roomState", roomState);
+    
+    if (roomState.mode) {
+      this.mode = roomState.mode;
+    }
+    this.friendlyFire = !!roomState.rules?.friendlyFire;
+    this.resetMapIfChanged(roomState);
+    
     // Handle room state updates
     if (roomState.powerups) {
       // Sync powerups with server state
       this.syncPowerups(roomState.powerups);
     }
     
+    // The map decides the world size, so apply it before building the border
+    if (!this.mapApplied && roomState.map && this.assetsLoaded) {
+      this.applyMapLayout(roomState.map);
+    }
+    
     // Create obstacles if not yet created and obstacle data exists
-    if (!this.obstaclesCreated && roomState.obstacles) {
+    if (!this.obstaclesCreated && roomState.obstacles && this.mapApplied) {
       this.createObstaclesFromServer(roomState.obstacles);
     }
+    
+    // Capture-the-flag bases and flags
+    if (!this.basesCreated && roomState.bases && this.assetsLoaded) {
+      this.createBases(roomState.bases);
+    }
+    if (roomState.flags) {
+      this.syncFlags(roomState.flags);
+    }
+    
+    // King-of-the-hill zones
+    if (roomState.zones) {
+      this.syncZones(roomState.zones);
+    }
+  }
+
+  private syncZones(zoneStates: ZoneState[]) {
+    if (!this.assetsLoaded) return;
+    
+    const hudZones = zoneStates.map(zoneState => {
+      let zone = this.zones.get(zoneState.id);
+      if (!zone) {
+        zone = new CaptureZone(this, zoneState.id, zoneState.x, zoneState.y, zoneState.radius);
+        this.zones.set(zoneState.id, zone);
+      }
+      
+      const ownerColor = zoneState.owner ? this.getPlayerColor(zoneState.owner) : null;
+      const capturerColor = zoneState.capturer ? this.getPlayerColor(zoneState.capturer) : null;
+      zone.draw(zoneState.progress, ownerColor, capturerColor, zoneState.contested);
+      
+      return {
+        id: zoneState.id,
+        progress: zoneState.capturer ? zoneState.progress : 0,
+        ownerName: zoneState.owner ? this.getPlayerName(zoneState.owner) : null,
+        ownerColor,
+        capturerColor,
+        contested: zoneState.contested
+      };
+    });
+    
+    // Tell the HUD about capture progress
+    this.events.emit("updateZones", hudZones);
+  }
+
+  private getPlayerColor(playerId: string): number | null {
+    if (playerId === this.myAccount) return this.player.getColor();
+    return this.otherPlayers.get(playerId)?.getColor() ?? null;
+  }
+
+  private createBases(bases: Record<string, { x: number; y: number }>) {
+    Object.entries(bases).forEach(([team, base]) => {
+      const color = TeamColors[team] ?? 0xffffff;
+      const circle = this.add.circle(base.x, base.y, 80, color, 0.2);
+      circle.setStrokeStyle(3, color, 0.8);
+      circle.setDepth(1);
+      this.mapMarkers.push(circle);
+    });
+    
+    this.basesCreated = true;
+  }
+
+  private syncFlags(flagStates: Record<string, FlagState>) {
+    if (!this.assetsLoaded) return;
+    
+    this.flagStates = flagStates;
+    
+    Object.values(flagStates).forEach(flagState => {
+      if (!this.flags.has(flagState.team)) {
+        this.flags.set(flagState.team, new Flag(this, flagState.x, flagState.y, flagState.team));
+      }
+    });
+    
+    this.positionFlags();
+    
+    // Tell the HUD where each flag is
+    this.events.emit("updateFlags", Object.values(flagStates).map(flagState => ({
+      team: flagState.team,
+      status: flagState.status,
+      carrierName: flagState.carrierId ? this.getPlayerName(flagState.carrierId) : null
+    })));
+  }
+
+  private positionFlags() {
+    this.flags.forEach((flag, team) => {
+      const flagState = this.flagStates[team];
+      if (!flagState) return;
+      
+      const carrier = flagState.status === "carried" && flagState.carrierId ?
+        (flagState.carrierId === this.myAccount ? this.player : this.otherPlayers.get(flagState.carrierId)) :
+        undefined;
+      
+      if (carrier) {
+        flag.setPosition(carrier.sprite.x + 12, carrier.sprite.y - 20);
+      } else {
+        flag.setPosition(flagState.x, flagState.y);
+      }
+    });
+  }
+
+  private getPlayerName(playerId: string): string {
+    if (playerId === this.myAccount) return this.playerName;
+    return this.otherPlayers.get(playerId)?.getName() ?? "Unknown";
   }
 
   // Get a unique color index for a player
@@ -615,30 +1205,74 @@ export class GameScene extends Phaser.Scene {
 
   updatePlayerStates(playerStates: any[]) {
     if (!playerStates) return;
+    this.network.record("in", "playerStates", playerStates);
     
     playerStates.forEach(playerState => {
       const playerId = playerState.account;
       
-      // Skip our own player (we handle our own state)
-      if (playerId === this.myAccount) return;
+      // Our own position is predicted locally and reconciled with the server's; health,
+      // death and spawns are owned by the server
+      if (playerId === this.myAccount) {
+        if (!this.player) return;
+        
+        this.player.setTeam(playerState.team ?? null);
+        this.player.setCharacterClass(playerState.characterClass);
+        
+        if (playerState.dead && !this.player.isDead) {
+          const killer = playerStates.find(p => p.account === playerState.killerId);
+          const killerName = killer ? killer.name || killer.account : null;
+          // respawnAt is server time
+          this.handlePlayerDeath(playerState.killerId, killerName, (playerState.respawnAt || 0) - this.clock.serverNow());
+        } else if (!playerState.dead && playerState.life !== undefined && playerState.life !== this.life) {
+          this.life = playerState.life;
+          this.handlePlayerRespawn(playerState.x, playerState.y);
+        } else if (!playerState.dead && playerState.inputSeq !== undefined) {
+          this.reconcile(playerState.x, playerState.y, playerState.inputSeq);
+        }
+        
+        if (playerState.health !== undefined) {
+          this.player.setHealth(playerState.health);
+        }
+        const effectsKey = JSON.stringify(playerState.effects || {});
+        if (effectsKey !== this.effectsKey) {
+          this.effectsKey = effectsKey;
+          const effects = this.toLocalEffects(playerState.effects);
+          this.player.setEffects(effects);
+          this.events.emit("updateEffects", effects);
+        }
+        if (playerState.energy !== undefined && playerState.energy !== this.energy) {
+          this.energy = playerState.energy;
+          this.events.emit("updateEnergy", this.energy);
+        }
+        if (playerState.stamina !== undefined && playerState.stamina !== this.stamina) {
+          this.stamina = playerState.stamina;
+          this.player.setStamina(this.stamina);
+          this.events.emit("updateStamina", this.stamina);
+        }
+        this.player.setBlocking(!!playerState.blocking);
+        const abilityReadyAt = playerState.abilityReadyAt || 0;
+        if (abilityReadyAt !== this.abilityReadyAt) {
+          this.abilityReadyAt = abilityReadyAt;
+          this.events.emit("updateAbility", {
+            name: this.player.getCharacterClass().ability.name,
+            readyAt: abilityReadyAt + Date.now() - this.clock.serverNow()
+          });
+        }
+        return;
+      }
       
       if (playerState.x !== undefined && playerState.y !== undefined) {
         // Update existing player or create new one
         if (this.otherPlayers.has(playerId)) {
           const player = this.otherPlayers.get(playerId)!;
-          player.moveTo(playerState.x, playerState.y);
-          
-          // 중요: 여기서 체력 업데이트 로직 수정
-          // 이 플레이어가 데미지를 입은 상태라면 서버 값 대신 로컬 값 사용
-          if (this.damagedPlayers.has(playerId)) {
-            // 로컬에 저장된 데미지 적용된 체력 값 사용
-            const damagedHealth = this.damagedPlayers.get(playerId);
-            console.log(`Using locally tracked health for ${playerId}: ${damagedHealth}`);
-            player.setHealth(damagedHealth);
-          } else {
-            // 데미지를 입지 않은 플레이어는 서버 값 사용
-            player.setHealth(playerState.health || 100);
-          }
+          player.pushSnapshot(this.toSnapshot(playerState));
+          player.setCharacterClass(playerState.characterClass);
+          player.setHealth(playerState.health ?? player.maxHealth);
+          player.setStamina(playerState.stamina ?? CombatConfig.maxStamina);
+          player.setBlocking(!!playerState.blocking);
+          player.setDead(!!playerState.dead);
+          player.setTeam(playerState.team ?? null);
+          player.setEffects(this.toLocalEffects(playerState.effects));
         } else {
           // Get a unique color index for this player
           const colorIndex = this.getUniqueColorIndex(playerId);
@@ -648,12 +1282,16 @@ export class GameScene extends Phaser.Scene {
             this,
             playerState.x,
             playerState.y,
-            "knight", // Use the knight texture
+            playerState.characterClass,
             playerState.name || "Unknown",
             playerId,
-            colorIndex
+            colorIndex,
+            playerState.team
           );
           
+          newPlayer.setDead(!!playerState.dead);
+          newPlayer.setEffects(this.toLocalEffects(playerState.effects));
+          newPlayer.pushSnapshot(this.toSnapshot(playerState));
           this.otherPlayers.set(playerId, newPlayer);
           
           // Set up collision if obstacles are already created
@@ -672,8 +1310,11 @@ export class GameScene extends Phaser.Scene {
         const colorIndex = this.hashCode(id) % 8 + 1;
         this.usedColorIndices.delete(colorIndex);
         
-        // 데미지 추적 맵에서도 제거
-        this.damagedPlayers.delete(id);
+        // Stop spectating a killer who left
+        if (this.spectateTargetId === id) {
+          this.spectateTargetId = null;
+          this.cameras.main.stopFollow();
+        }
         
         player.destroy();
         this.otherPlayers.delete(id);
@@ -685,25 +1326,20 @@ export class GameScene extends Phaser.Scene {
     if (!this.powerups || !this.assetsLoaded) return;
     
     try {
-      // Clear existing powerups
-      this.powerups.clear(true, true);
-
-      // Create powerups from server data
+      const serverIds = new Set(powerupData.filter(data => data && data.id).map(data => data.id));
+      
+      // Remove powerups that were collected or expired
+      this.powerupEntities.forEach((powerup, id) => {
+        if (!serverIds.has(id)) {
+          powerup.destroy();
+          this.powerupEntities.delete(id);
+        }
+      });
+      
+      // Only create powerups we do not have yet
       powerupData.forEach(data => {
         if (!data || !data.id || !data.type) return;
-        
-        const powerup = new Powerup(
-          this,
-          data.x,
-          data.y,
-          "powerup",
-          data.id,
-          data.type
-        );
-        
-        if (powerup && powerup.sprite) {
-          this.powerups?.add(powerup.sprite);
-        }
+        this.addPowerup(data);
       });
     } catch (error) {
       console.error("Error syncing powerups:", error);
@@ -1,8 +1,25 @@
 import Phaser from "phaser";
+import { TeamColors } from "../config/GameModes";
+import { getPowerup } from "../config/PowerupConfig";
+import type { NetworkSummary } from "../systems/NetworkStats";
 
 export class UIScene extends Phaser.Scene {
   private healthBar!: Phaser.GameObjects.Graphics;
   private healthText!: Phaser.GameObjects.Text;
+  private energyBar!: Phaser.GameObjects.Graphics;
+  private staminaBar!: Phaser.GameObjects.Graphics;
+  private deathOverlay!: Phaser.GameObjects.Container;
+  private deathText!: Phaser.GameObjects.Text;
+  private respawnText!: Phaser.GameObjects.Text;
+  private respawnAt: number = 0;
+  private flagTexts: Map<string, Phaser.GameObjects.Text> = new Map();
+  private zoneBars!: Phaser.GameObjects.Graphics;
+  private zoneTexts: Map<string, Phaser.GameObjects.Text> = new Map();
+  private networkText!: Phaser.GameObjects.Text;
+  private effectIcons: Map<string, { icon: Phaser.GameObjects.Container; timer: Phaser.GameObjects.Text }> = new Map();
+  private effectExpiry: Record<string, number> = {};
+  private abilityText!: Phaser.GameObjects.Text;
+  private ability: { name: string; readyAt: number } | null = null;
   private gameScene!: Phaser.Scene;
   
   constructor() {
@@ -23,16 +40,260 @@ export class UIScene extends Phaser.Scene {
     });
     this.healthText.setScrollFactor(0);
     
+    // Create energy bar
+    this.energyBar = this.add.graphics();
+    this.energyBar.setScrollFactor(0);
+    this.updateEnergy(100);
+    
+    // Create stamina bar
+    this.staminaBar = this.add.graphics();
+    this.staminaBar.setScrollFactor(0);
+    this.updateStamina(100);
+    
     // Listen for health changes
     this.gameScene.events.on("updateHealth", this.updateHealth, this);
     
+    // Create death overlay (hidden until the player dies)
+    this.createDeathOverlay();
+    
+    // Listen for energy changes
+    this.gameScene.events.on("updateEnergy", this.updateEnergy, this);
+    
+    // Listen for stamina changes
+    this.gameScene.events.on("updateStamina", this.updateStamina, this);
+    
+    // Create capture zone progress bars
+    this.zoneBars = this.add.graphics();
+    this.zoneBars.setScrollFactor(0);
+    
+    // Listen for active powerups
+    this.gameScene.events.on("updateEffects", this.updateEffects, this);
+    
+    // Class ability cooldown, next to the health bar
+    this.abilityText = this.add.text(232, 42, "", {
+      fontSize: "14px",
+      color: "#ffffff",
+      stroke: "#000000",
+      strokeThickness: 3
+    }).setScrollFactor(0);
+    this.gameScene.events.on("updateAbility", this.updateAbility, this);
+    
+    // Listen for capture-the-flag status
+    this.gameScene.events.on("updateFlags", this.updateFlags, this);
+    
+    // Listen for king-of-the-hill zone status
+    this.gameScene.events.on("updateZones", this.updateZones, this);
+    
+    // Network overlay, toggled with F3
+    this.networkText = this.add.text(this.cameras.main.width - 16, this.cameras.main.height - 16, "", {
+      fontSize: "12px",
+      color: "#aaffaa",
+      backgroundColor: "#000000",
+      padding: { x: 6, y: 4 }
+    }).setOrigin(1, 1).setScrollFactor(0).setVisible(false);
+    this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.F3).on("down", () => {
+      this.networkText.setVisible(!this.networkText.visible);
+    });
+    this.gameScene.events.on("updateNetworkStats", this.updateNetworkStats, this);
+    
+    // Listen for death and respawn
+    this.gameScene.events.on("playerDied", this.showDeathOverlay, this);
+    this.gameScene.events.on("playerRespawned", this.hideDeathOverlay, this);
+    
     // Make sure UI stays on top
     this.scene.bringToTop();
   }
   
-  updateHealth(health: number) {
+  update() {
+    // Count down to respawn while the death overlay is shown
+    if (this.deathOverlay.visible) {
+      const seconds = Math.max(0, Math.ceil((this.respawnAt - Date.now()) / 1000));
+      this.respawnText.setText(`Respawning in ${seconds}...`);
+    }
+    
+    // Count down active powerups and drop the ones that ran out
+    const now = Date.now();
+    this.effectIcons.forEach(({ timer }, type) => {
+      const remaining = (this.effectExpiry[type] ?? 0) - now;
+      if (remaining > 0) {
+        timer.setText(`${Math.ceil(remaining / 1000)}s`);
+      } else {
+        this.removeEffectIcon(type);
+      }
+    });
+    
+    if (this.ability) {
+      const remaining = this.ability.readyAt - now;
+      this.abilityText.setText(`[Q] ${this.ability.name}: ${remaining > 0 ? `${Math.ceil(remaining / 1000)}s` : "ready"}`);
+      this.abilityText.setColor(remaining > 0 ? "#aaaaaa" : "#ffffff");
+    }
+  }
+  
+  // Ability of our class and the local time it can be used again
+  updateAbility(ability: { name: string; readyAt: number }) {
+    this.ability = ability;
+  }
+  
+  // Active powerups as local expiry times, shown as a row of icons under the resource bars
+  updateEffects(effects: Record<string, number>) {
+    this.effectExpiry = effects;
+    
+    this.effectIcons.forEach((_, type) => {
+      if (!(type in effects)) this.removeEffectIcon(type);
+    });
+    Object.keys(effects).forEach(type => {
+      if (this.effectIcons.has(type)) return;
+      
+      const powerup = getPowerup(type);
+      const background = this.add.circle(0, 0, 14, powerup.color, 0.9).setStrokeStyle(2, 0x000000);
+      const glyph = this.add.text(0, 0, powerup.icon, {
+        fontSize: "14px",
+        color: "#000000",
+        fontStyle: "bold"
+      }).setOrigin(0.5);
+      const timer = this.add.text(0, 18, "", {
+        fontSize: "11px",
+        color: "#ffffff",
+        stroke: "#000000",
+        strokeThickness: 3
+      }).setOrigin(0.5, 0);
+      const icon = this.add.container(0, 0, [background, glyph, timer]).setScrollFactor(0);
+      this.effectIcons.set(type, { icon, timer });
+    });
+    
+    this.layoutEffectIcons();
+  }
+  
+  private removeEffectIcon(type: string) {
+    this.effectIcons.get(type)?.icon.destroy();
+    this.effectIcons.delete(type);
+    this.layoutEffectIcons();
+  }
+  
+  private layoutEffectIcons() {
+    Array.from(this.effectIcons.values()).forEach(({ icon }, index) => {
+      icon.setPosition(34 + index * 36, 106);
+    });
+  }
+  
+  private updateNetworkStats(summary: NetworkSummary) {
+    const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB/s`;
+    
+    // Busiest kinds of traffic first
+    const kinds = Object.entries(summary.byKind)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 4)
+      .map(([kind, bytes]) => `  ${kind}: ${kb(bytes)}`);
+    
+    this.networkText.setText([
+      `In: ${kb(summary.inBytesPerSecond)} (${summary.inMessagesPerSecond.toFixed(0)} msg/s)`,
+      `Out: ${kb(summary.outBytesPerSecond)} (${summary.outMessagesPerSecond.toFixed(0)} msg/s)`,
+      `Total: ${(summary.totalInBytes / 1024).toFixed(0)} KB in / ${(summary.totalOutBytes / 1024).toFixed(0)} KB out`,
+      ...kinds
+    ]);
+  }
+  
+  private createDeathOverlay() {
+    const { width, height } = this.scale;
+    
+    const background = this.add.rectangle(0, 0, width, height, 0x000000, 0.5).setOrigin(0, 0);
+    
+    this.deathText = this.add.text(width / 2, height / 2 - 20, "", {
+      fontSize: "28px",
+      color: "#ff4444",
+      stroke: "#000000",
+      strokeThickness: 4
+    }).setOrigin(0.5);
+    
+    this.respawnText = this.add.text(width / 2, height / 2 + 20, "", {
+      fontSize: "18px",
+      color: "#ffffff"
+    }).setOrigin(0.5);
+    
+    this.deathOverlay = this.add.container(0, 0, [background, this.deathText, this.respawnText]);
+    this.deathOverlay.setScrollFactor(0);
+    this.deathOverlay.setVisible(false);
+  }
+  
+  showDeathOverlay(data: { killerName: string | null; respawnDelay: number }) {
+    this.deathText.setText(data.killerName ? `Slain by ${data.killerName}` : "You died");
+    this.respawnAt = Date.now() + Math.max(0, data.respawnDelay);
+    this.deathOverlay.setVisible(true);
+  }
+  
+  hideDeathOverlay() {
+    this.deathOverlay.setVisible(false);
+  }
+  
+  updateFlags(flags: { team: string; status: string; carrierName: string | null }[]) {
+    flags.forEach((flag, index) => {
+      let text = this.flagTexts.get(flag.team);
+      if (!text) {
+        text = this.add.text(this.scale.width - 20, 20 + index * 22, "", {
+          fontSize: "16px",
+          color: `#${(TeamColors[flag.team] ?? 0xffffff).toString(16).padStart(6, "0")}`,
+          stroke: "#000000",
+          strokeThickness: 3
+        }).setOrigin(1, 0).setScrollFactor(0);
+        this.flagTexts.set(flag.team, text);
+      }
+      
+      const label = flag.team.charAt(0).toUpperCase() + flag.team.slice(1);
+      let status = "At base";
+      if (flag.status === "carried") {
+        status = `Taken by ${flag.carrierName ?? "Unknown"}`;
+      } else if (flag.status === "dropped") {
+        status = "Dropped";
+      }
+      text.setText(`${label} flag: ${status}`);
+    });
+  }
+  
+  updateZones(zones: {
+    id: string;
+    progress: number;
+    ownerName: string | null;
+    ownerColor: number | null;
+    capturerColor: number | null;
+    contested: boolean;
+  }[]) {
+    const right = this.scale.width - 20;
+    const barWidth = 140;
+    
+    this.zoneBars.clear();
+    
+    zones.forEach((zone, index) => {
+      const y = 20 + index * 36;
+      
+      // Label with the owner's name
+      let text = this.zoneTexts.get(zone.id);
+      if (!text) {
+        text = this.add.text(right, y, "", {
+          fontSize: "12px",
+          color: "#ffffff",
+          stroke: "#000000",
+          strokeThickness: 3
+        }).setOrigin(1, 0).setScrollFactor(0);
+        this.zoneTexts.set(zone.id, text);
+      }
+      const status = zone.contested ? "Contested" : zone.ownerName ?? "Neutral";
+      text.setText(`${zone.id}: ${status}`);
+      
+      // Owner color swatch
+      this.zoneBars.fillStyle(zone.ownerColor ?? 0x888888, 1);
+      this.zoneBars.fillRect(right - barWidth - 16, y + 16, 10, 10);
+      
+      // Capture progress bar
+      this.zoneBars.fillStyle(0x000000, 0.5);
+      this.zoneBars.fillRect(right - barWidth, y + 16, barWidth, 10);
+      this.zoneBars.fillStyle(zone.capturerColor ?? 0xffffff, 1);
+      this.zoneBars.fillRect(right - barWidth, y + 16, barWidth * zone.progress, 10);
+    });
+  }
+  
+  updateHealth(health: number, maxHealth: number = 100) {
     // Update health text
-    this.healthText.setText(`Health: ${health}`);
+    this.healthText.setText(`Health: ${health}/${maxHealth}`);
     
     // Update health bar
     this.healthBar.clear();
@@ -42,14 +303,39 @@ export class UIScene extends Phaser.Scene {
     this.healthBar.fillRect(20, 40, 200, 20);
     
     // Health amount
-    if (health > 60) {
+    const ratio = Math.max(0, health / maxHealth);
+    if (ratio > 0.6) {
       this.healthBar.fillStyle(0x00ff00, 1);
-    } else if (health > 30) {
+    } else if (ratio > 0.3) {
       this.healthBar.fillStyle(0xffff00, 1);
     } else {
       this.healthBar.fillStyle(0xff0000, 1);
     }
     
-    this.healthBar.fillRect(20, 40, 2 * health, 20);
+    this.healthBar.fillRect(20, 40, 200 * ratio, 20);
+  }
+  
+  updateEnergy(energy: number) {
+    this.energyBar.clear();
+    
+    // Background
+    this.energyBar.fillStyle(0x000000, 0.5);
+    this.energyBar.fillRect(20, 65, 200, 8);
+    
+    // Energy amount
+    this.energyBar.fillStyle(0x3399ff, 1);
+    this.energyBar.fillRect(20, 65, 2 * energy, 8);
+  }
+  
+  updateStamina(stamina: number) {
+    this.staminaBar.clear();
+    
+    // Background
+    this.staminaBar.fillStyle(0x000000, 0.5);
+    this.staminaBar.fillRect(20, 77, 200, 8);
+    
+    // Stamina amount
+    this.staminaBar.fillStyle(0xffcc00, 1);
+    this.staminaBar.fillRect(20, 77, 2 * stamina, 8);
   }
 }
@@ -0,0 +1,34 @@
+// Estimates the server clock from getServerTime round trips. The sample with the lowest
+// round trip is trusted most, since its one-way delay guess is the tightest.
+export class ClockSync {
+  private offset: number = 0;
+  private roundTrip: number = 0;
+  private samples: { offset: number; roundTrip: number }[] = [];
+  private static readonly MAX_SAMPLES = 8;
+
+  async sync(server: { remoteFunction: (name: string, args: unknown[]) => Promise<unknown> }) {
+    const sentAt = Date.now();
+    const serverTime = Number(await server.remoteFunction("getServerTime", []));
+    const receivedAt = Date.now();
+    if (!Number.isFinite(serverTime)) return;
+
+    const roundTrip = receivedAt - sentAt;
+    this.samples.push({ offset: serverTime - (sentAt + roundTrip / 2), roundTrip });
+    if (this.samples.length > ClockSync.MAX_SAMPLES) {
+      this.samples.shift();
+    }
+
+    const best = this.samples.reduce((a, b) => (b.roundTrip < a.roundTrip ? b : a));
+    this.offset = best.offset;
+    this.roundTrip = this.samples.reduce((total, sample) => total + sample.roundTrip, 0) / this.samples.length;
+  }
+
+  serverNow(): number {
+    return Date.now() + this.offset;
+  }
+
+  // One-way delay between the server producing state and us receiving it
+  getLatency(): number {
+    return this.roundTrip / 2;
+  }
+}
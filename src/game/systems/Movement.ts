@@ -0,0 +1,84 @@
+import { MovementConfig } from "../config/MovementConfig";
+
+// One frame of movement input, sent to the server in sequence order
+export interface MoveInput {
+  seq: number;
+  moveX: number; // -1, 0 or 1
+  moveY: number;
+  duration: number; // ms
+  angle?: number; // Facing at the end of the frame; derived from the movement when missing
+}
+
+export interface ObstacleRect {
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+}
+
+export interface MoveBounds {
+  width: number;
+  height: number;
+}
+
+const DEFAULT_OBSTACLE_SIZE = 50;
+
+// Advance a position by one input. This must stay identical to Server.simulateMovement
+// so replayed inputs land exactly where the server puts them.
+export function simulateMovement(
+  position: { x: number; y: number },
+  input: MoveInput,
+  speed: number,
+  obstacles: ObstacleRect[],
+  bounds: MoveBounds
+): { x: number; y: number } {
+  const half = MovementConfig.bodySize / 2;
+  const duration = Math.min(Math.max(input.duration, 0), MovementConfig.maxInputDuration);
+  const length = Math.hypot(input.moveX, input.moveY);
+  if (length === 0 || duration === 0) return { x: position.x, y: position.y };
+
+  // Diagonal movement is normalized to the same speed
+  const step = speed * duration / 1000 / length;
+  let x = position.x;
+  let y = position.y;
+
+  // Move one axis at a time and stop at the first obstacle edge
+  x += input.moveX * step;
+  for (const o of input.moveX !== 0 ? obstacles : []) {
+    const halfWidth = (o.width || DEFAULT_OBSTACLE_SIZE) / 2;
+    const halfHeight = (o.height || DEFAULT_OBSTACLE_SIZE) / 2;
+    if (Math.abs(x - o.x) < half + halfWidth && Math.abs(y - o.y) < half + halfHeight) {
+      x = input.moveX > 0 ? o.x - halfWidth - half : o.x + halfWidth + half;
+    }
+  }
+  x = Math.min(bounds.width - MovementConfig.mapBorder - half, Math.max(MovementConfig.mapBorder + half, x));
+
+  y += input.moveY * step;
+  for (const o of input.moveY !== 0 ? obstacles : []) {
+    const halfWidth = (o.width || DEFAULT_OBSTACLE_SIZE) / 2;
+    const halfHeight = (o.height || DEFAULT_OBSTACLE_SIZE) / 2;
+    if (Math.abs(x - o.x) < half + halfWidth && Math.abs(y - o.y) < half + halfHeight) {
+      y = input.moveY > 0 ? o.y - halfHeight - half : o.y + halfHeight + half;
+    }
+  }
+  y = Math.min(bounds.height - MovementConfig.mapBorder - half, Math.max(MovementConfig.mapBorder + half, y));
+
+  return { x, y };
+}
+
+// Facing is one of 8 directions in degrees, clockwise from the right (screen y points
+// down). Must stay identical to Server.getFacingAngle
+export const FACING_STEP = 45;
+
+// Nearest facing to a direction vector, or null when there is no direction
+export function getFacingAngle(x: number, y: number): number | null {
+  if (x === 0 && y === 0) return null;
+  const degrees = Math.atan2(y, x) * 180 / Math.PI;
+  return (Math.round(degrees / FACING_STEP) * FACING_STEP + 360) % 360;
+}
+
+// Unit vector pointing along a facing angle
+export function getFacingVector(angle: number): { x: number; y: number } {
+  const radians = angle * Math.PI / 180;
+  return { x: Math.cos(radians), y: Math.sin(radians) };
+}
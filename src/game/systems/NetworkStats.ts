@@ -0,0 +1,73 @@
+// Rolling count of the traffic this client exchanges with its room. Sizes are the JSON
+// length of each payload, so they estimate what the game handles rather than wire bytes.
+export type TrafficDirection = "in" | "out";
+
+interface TrafficSample {
+  time: number;
+  direction: TrafficDirection;
+  kind: string;
+  bytes: number;
+}
+
+export interface NetworkSummary {
+  inBytesPerSecond: number;
+  outBytesPerSecond: number;
+  inMessagesPerSecond: number;
+  outMessagesPerSecond: number;
+  totalInBytes: number;
+  totalOutBytes: number;
+  byKind: Record<string, number>; // bytes per second in either direction
+}
+
+export class NetworkStats {
+  private samples: TrafficSample[] = [];
+  private totals: Record<TrafficDirection, number> = { in: 0, out: 0 };
+  private windowMs: number;
+
+  constructor(windowMs: number) {
+    this.windowMs = windowMs;
+  }
+
+  record(direction: TrafficDirection, kind: string, payload: unknown) {
+    const bytes = JSON.stringify(payload ?? null).length;
+    const time = Date.now();
+    this.samples.push({ time, direction, kind, bytes });
+    this.totals[direction] += bytes;
+    this.prune(time);
+  }
+
+  getSummary(): NetworkSummary {
+    const now = Date.now();
+    this.prune(now);
+
+    const seconds = this.windowMs / 1000;
+    const summary: NetworkSummary = {
+      inBytesPerSecond: 0,
+      outBytesPerSecond: 0,
+      inMessagesPerSecond: 0,
+      outMessagesPerSecond: 0,
+      totalInBytes: this.totals.in,
+      totalOutBytes: this.totals.out,
+      byKind: {}
+    };
+
+    this.samples.forEach(sample => {
+      if (sample.direction === "in") {
+        summary.inBytesPerSecond += sample.bytes / seconds;
+        summary.inMessagesPerSecond += 1 / seconds;
+      } else {
+        summary.outBytesPerSecond += sample.bytes / seconds;
+        summary.outMessagesPerSecond += 1 / seconds;
+      }
+      summary.byKind[sample.kind] = (summary.byKind[sample.kind] || 0) + sample.bytes / seconds;
+    });
+
+    return summary;
+  }
+
+  private prune(now: number) {
+    while (this.samples.length > 0 && this.samples[0].time < now - this.windowMs) {
+      this.samples.shift();
+    }
+  }
+}
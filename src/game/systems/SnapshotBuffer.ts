@@ -0,0 +1,91 @@
+import { NetworkConfig } from "../config/NetworkConfig";
+
+// Replicated state of a remote player at the time it was received
+export interface Snapshot {
+  time: number;
+  x: number;
+  y: number;
+  angle: number; // 8-way facing
+  anim: string; // "idle" or "walk"
+  attackAt: number; // Time of the player's last melee swing
+}
+
+// Timestamped snapshots of one remote player, sampled a fixed delay in the past
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+
+  push(snapshot: Snapshot) {
+    const last = this.snapshots[this.snapshots.length - 1];
+    if (last && snapshot.time <= last.time) return;
+
+    // Room state updates repeat unchanged players; a stale copy would look like a pause
+    if (last && last.x === snapshot.x && last.y === snapshot.y && last.angle === snapshot.angle &&
+        last.anim === snapshot.anim && last.attackAt === snapshot.attackAt) {
+      return;
+    }
+
+    // Teleports (respawns) would otherwise slide across the map
+    if (last && Math.hypot(snapshot.x - last.x, snapshot.y - last.y) > NetworkConfig.snapDistance) {
+      this.snapshots = [];
+    } else if (last && snapshot.time - last.time > NetworkConfig.idleGap) {
+      // After a quiet spell the player was still standing at the last position until
+      // just before this update, rather than drifting towards it the whole time
+      this.snapshots.push({ ...last, time: snapshot.time - NetworkConfig.snapshotInterval });
+    }
+
+    this.snapshots.push(snapshot);
+
+    // Keep one snapshot older than the window so there is always something to lerp from
+    const cutoff = snapshot.time - NetworkConfig.bufferDuration;
+    while (this.snapshots.length > 2 && this.snapshots[1].time < cutoff) {
+      this.snapshots.shift();
+    }
+  }
+
+  // State to render at renderTime: interpolated between the two surrounding snapshots,
+  // briefly extrapolated past the newest one, or held at the edge of the buffer
+  sample(renderTime: number): Omit<Snapshot, "time"> | null {
+    const count = this.snapshots.length;
+    if (count === 0) return null;
+
+    const first = this.snapshots[0];
+    if (count === 1 || renderTime <= first.time) {
+      return { ...first };
+    }
+
+    for (let i = count - 1; i > 0; i--) {
+      const from = this.snapshots[i - 1];
+      const to = this.snapshots[i];
+      if (renderTime >= from.time && renderTime <= to.time) {
+        const t = (renderTime - from.time) / (to.time - from.time);
+        return {
+          x: from.x + (to.x - from.x) * t,
+          y: from.y + (to.y - from.y) * t,
+          angle: to.angle,
+          anim: to.anim,
+          attackAt: to.attackAt
+        };
+      }
+    }
+
+    // Late packets: keep a walking player moving along its last velocity for a while
+    const previous = this.snapshots[count - 2];
+    const latest = this.snapshots[count - 1];
+    if (latest.anim !== "walk") {
+      return { ...latest };
+    }
+    const ahead = Math.min(renderTime - latest.time, NetworkConfig.maxExtrapolation);
+    const elapsed = latest.time - previous.time;
+    return {
+      x: latest.x + (latest.x - previous.x) / elapsed * ahead,
+      y: latest.y + (latest.y - previous.y) / elapsed * ahead,
+      angle: latest.angle,
+      anim: latest.anim,
+      attackAt: latest.attackAt
+    };
+  }
+
+  clear() {
+    this.snapshots = [];
+  }
+}
@@ -0,0 +1,24 @@
+// Leaderboard queries and pages as served by getLeaderboard in server.js
+export type LeaderboardWindow = "daily" | "weekly" | "allTime";
+export type LeaderboardMetric = "kills" | "kd" | "wins";
+
+export interface LeaderboardEntry {
+  rank: number;
+  account: string;
+  name: string;
+  kills: number;
+  deaths: number;
+  wins: number;
+  matches: number;
+  value: number; // The ranked metric
+}
+
+export interface LeaderboardPage {
+  window: LeaderboardWindow;
+  metric: LeaderboardMetric;
+  page: number;
+  pageSize: number;
+  total: number;
+  entries: LeaderboardEntry[];
+  own: LeaderboardEntry | null; // The caller's row, wherever it ranks
+}
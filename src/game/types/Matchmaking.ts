@@ -0,0 +1,15 @@
+import type { GameModeId } from "../config/GameModes";
+
+// Quick play queue status as returned by joinQueue and pollQueue in server.js
+export type QueueStatus =
+  | { status: "idle" } // Not queued (e.g. dropped after not polling)
+  | {
+      status: "searching";
+      mode: GameModeId;
+      rating: number;
+      range: number; // Accepted difference to a room's average rating; grows while waiting
+      waited: number; // ms
+      estimatedWait: number; // ms left, from recent waits
+      queued: number; // Players searching for this mode, us included
+    }
+  | { status: "matched"; mode: GameModeId; roomId: string }; // Empty roomId: create a room
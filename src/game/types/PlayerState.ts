@@ -0,0 +1,32 @@
+// A timed powerup on a player; `until` is in server time
+export interface ActiveEffectState {
+  until: number;
+  shield?: number; // Damage the shield can still absorb
+}
+
+// Per-player room state as stored by server.js
+export interface PlayerState {
+  account: string;
+  name?: string;
+  characterClass?: string; // CharacterClassId chosen in the lobby
+  x?: number;
+  y?: number;
+  angle?: number; // Facing in degrees, one of 8 directions clockwise from the right
+  life?: number;
+  inputSeq?: number; // Last movement input the server has applied
+  anim?: string; // "idle" or "walk", from the latest input
+  lastAttackAt?: number;
+  health?: number;
+  energy?: number;
+  stamina?: number;
+  blocking?: boolean;
+  invulnerableUntil?: number; // Server time a dodge roll's invulnerability ends
+  abilityReadyAt?: number; // Server time the class ability can be used again
+  effects?: Record<string, ActiveEffectState>; // Timed powerups, by type
+  score?: number;
+  team?: string | null;
+  dead?: boolean;
+  kicked?: boolean; // Kicked by the host; out of the game until the client leaves the room
+  killerId?: string | null;
+  respawnAt?: number | null;
+}
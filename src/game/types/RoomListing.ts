@@ -0,0 +1,23 @@
+import type { GameModeId } from "../config/GameModes";
+
+export type RoomVisibility = "public" | "private" | "password";
+
+// A room as returned by listRooms in server.js; private rooms are never listed
+export interface RoomListing {
+  roomId: string;
+  name: string;
+  mode: GameModeId;
+  mapName: string | null;
+  phase: "waiting" | "countdown" | "playing" | "results";
+  hostName: string | null;
+  players: number;
+  maxPlayers: number;
+  passwordProtected: boolean; // Needs a password to join
+  locked: boolean; // Locked by the host; nobody can join
+}
+
+export interface RoomFilters {
+  mode?: GameModeId;
+  hideFull?: boolean;
+  hidePasswordProtected?: boolean;
+}